@@ -0,0 +1,63 @@
+import * as THREE from 'three';
+import { AIM_GUIDE_CONFIG } from './constants';
+
+const MAX_DOTS = Math.ceil(AIM_GUIDE_CONFIG.MAX_STEPS / AIM_GUIDE_CONFIG.DOT_SPACING);
+
+// Where a predicted flight ends, and which way the target, wheel or ground it lands on faces
+export interface AimImpact {
+  point: THREE.Vector3;
+  normal: THREE.Vector3;
+}
+
+const RING_FACING = new THREE.Vector3(0, 0, 1);
+
+// Draws a predicted arrow flight as dots, with a ring where it lands. The game works out the path.
+export class AimGuide {
+  public readonly root = new THREE.Group();
+  private dots: THREE.Points;
+  private marker: THREE.Mesh;
+
+  constructor() {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_DOTS * 3), 3));
+    this.dots = new THREE.Points(geometry, new THREE.PointsMaterial({
+      color: AIM_GUIDE_CONFIG.DOT_COLOR,
+      size: 0.15,
+      transparent: true,
+      opacity: 0.7,
+      depthWrite: false
+    }));
+    // The buffer changes every frame, so its bounds would always be stale
+    this.dots.frustumCulled = false;
+
+    this.marker = new THREE.Mesh(
+      new THREE.RingGeometry(0.25, 0.4, 20),
+      new THREE.MeshBasicMaterial({ color: AIM_GUIDE_CONFIG.MARKER_COLOR, side: THREE.DoubleSide, transparent: true, opacity: 0.8 })
+    );
+
+    this.root.add(this.dots, this.marker);
+    this.hide();
+  }
+
+  public show(path: THREE.Vector3[], impact: AimImpact | null): void {
+    const positions = this.dots.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const count = Math.min(path.length, MAX_DOTS);
+    for (let i = 0; i < count; i++) {
+      positions.setXYZ(i, path[i].x, path[i].y, path[i].z);
+    }
+    positions.needsUpdate = true;
+    this.dots.geometry.setDrawRange(0, count);
+
+    this.marker.visible = impact !== null;
+    if (impact) {
+      // Lying on whatever it lands on, just off the surface so it doesn't flicker into it
+      this.marker.position.copy(impact.point).addScaledVector(impact.normal, 0.02);
+      this.marker.quaternion.setFromUnitVectors(RING_FACING, impact.normal);
+    }
+    this.root.visible = true;
+  }
+
+  public hide(): void {
+    this.root.visible = false;
+  }
+}
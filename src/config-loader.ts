@@ -0,0 +1,185 @@
+import { GAME_CONFIG, WHEEL_CONFIG, BOW_CONFIG, ARROW_CONFIG, AMMO_CONFIG, WIND_CONFIG, ARCADE_CONFIG, DIFFICULTY_CONFIG, DIRECTOR_CONFIG, HEALTH_CONFIG, POWERUP_CONFIG, OBSTACLE_CONFIG, TARGET_CONFIG } from './constants';
+
+type ConfigObject = Record<string, unknown>;
+
+// The tuning objects an external config may override, under the names used in the JSON
+const TUNABLE_CONFIGS: Record<string, ConfigObject> = {
+  GAME_CONFIG,
+  WHEEL_CONFIG,
+  BOW_CONFIG,
+  ARROW_CONFIG,
+  AMMO_CONFIG,
+  WIND_CONFIG,
+  ARCADE_CONFIG,
+  DIFFICULTY_CONFIG,
+  DIRECTOR_CONFIG,
+  HEALTH_CONFIG,
+  POWERUP_CONFIG,
+  OBSTACLE_CONFIG,
+  TARGET_CONFIG
+};
+
+// Every number has to be finite and non-negative; these keys are narrowed further
+const INTEGER_KEYS = new Set([
+  'SHADOW_MAP_SIZE', 'MIN_SHOTS_FOR_ROAST', 'MAX_HEALTH', 'HEAL_AMOUNT', 'MAX_ACTIVE_POWERUPS',
+  'MAX_ACTIVE_OBSTACLES', 'FLOCK_SIZE_MIN', 'FLOCK_SIZE_MAX', 'MAX_TARGETS_ON_WHEEL', 'MAX_MISSES',
+  'MAX_SPLITS', 'PARTICLE_COUNT', 'TRAIL_LENGTH', 'SHRAPNEL_COUNT', 'MIN_SHOTS', 'MAX_TARGETS', 'COUNT',
+  'QUIVER_CAPACITY', 'START_SPARES', 'MAX_SPARES', 'REFILL_AMOUNT'
+]);
+const POSITIVE_KEYS = new Set([
+  'CAMERA_FOV', 'CAMERA_NEAR', 'CAMERA_FAR', 'DEFAULT_ASPECT', 'SHADOW_MAP_SIZE', 'WHEEL_RADIUS',
+  'FIXED_TIMESTEP', 'MAX_FRAME_TIME', 'MAX_HEALTH', 'SIZE', 'SIZE_START', 'SIZE_MIN', 'SHRINK_RATE',
+  'SPLIT_SIZE_MULTIPLIER', 'FLOCK_SIZE_MIN', 'MAX_MISSES', 'MAX_RPM', 'WINDOW', 'EVALUATION_INTERVAL',
+  'GUST_INTERVAL_MIN', 'DRAW_TIME', 'TREMBLE_RAMP', 'MAX_TARGETS', 'COUNT', 'QUIVER_CAPACITY',
+  // The director rates play relative to its targets
+  'TARGET_ACCURACY', 'TARGET_COMBO', 'TARGET_STUN_RATE', 'TARGET_SCORE_RATE'
+]);
+const UPPER_BOUNDS: Record<string, number> = {
+  CAMERA_FOV: 179,
+  FIXED_TIMESTEP: 0.1, // Coarser steps tunnel arrows straight through targets
+  SHRINK_RATE: 1,
+  MIN_SPEED_SHARE: 1,
+  // Armored spokes slow arrows down, never speed them up
+  ARMOR_BOUNCE: 1,
+  ARMOR_GLANCE: 1,
+  SPLIT_SIZE_MULTIPLIER: 1,
+  TARGET_ACCURACY: 1,
+  // Director scales must stay positive at full level
+  MAX_LEVEL: 1,
+  WHEEL_SPEED_RANGE: 0.9,
+  OBSTACLE_RANGE: 0.9,
+  SPECIAL_TARGET_RANGE: 1
+};
+// Lifetimes may be null for targets that stay until hit
+const NULLABLE_KEYS = new Set(['LIFETIME']);
+
+// Settings that only make sense in this order, checked on the merged values.
+// Strict pairs can't be equal either (shrinking targets divide by the size range).
+const ORDERED_PAIRS: { lower: string; upper: string; strict: boolean }[] = [
+  { lower: 'GAME_CONFIG.CAMERA_NEAR', upper: 'GAME_CONFIG.CAMERA_FAR', strict: true },
+  { lower: 'WHEEL_CONFIG.DANGER_RPM', upper: 'WHEEL_CONFIG.REDLINE_RPM', strict: false },
+  { lower: 'WHEEL_CONFIG.REDLINE_RPM', upper: 'WHEEL_CONFIG.MAX_RPM', strict: false },
+  { lower: 'AMMO_CONFIG.START_SPARES', upper: 'AMMO_CONFIG.MAX_SPARES', strict: false },
+  { lower: 'WIND_CONFIG.GUST_INTERVAL_MIN', upper: 'WIND_CONFIG.GUST_INTERVAL_MAX', strict: false },
+  { lower: 'OBSTACLE_CONFIG.MIN_SPAWN_DISTANCE', upper: 'OBSTACLE_CONFIG.MAX_SPAWN_DISTANCE', strict: false },
+  { lower: 'OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MIN', upper: 'OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MAX', strict: false },
+  { lower: 'OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MIN', upper: 'OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MAX', strict: false },
+  { lower: 'TARGET_CONFIG.SHRINKING.SIZE_MIN', upper: 'TARGET_CONFIG.SHRINKING.SIZE_START', strict: true },
+  { lower: 'TARGET_CONFIG.SHRINKING.POINTS_MIN', upper: 'TARGET_CONFIG.SHRINKING.POINTS_MAX', strict: false }
+];
+
+function isConfigObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function checkNumber(path: string, key: string, value: number, errors: string[]): void {
+  if (!Number.isFinite(value)) {
+    errors.push(`${path} must be a finite number`);
+    return;
+  }
+
+  const isColor = key.includes('COLOR');
+  const max = isColor ? 0xFFFFFF : key.endsWith('_CHANCE') ? 1 : UPPER_BOUNDS[key];
+  if (POSITIVE_KEYS.has(key) ? value <= 0 : value < 0) {
+    errors.push(`${path} must be ${POSITIVE_KEYS.has(key) ? 'greater than 0' : 'at least 0'} (got ${value})`);
+  } else if (max !== undefined && value > max) {
+    errors.push(`${path} must be at most ${max} (got ${value})`);
+  }
+  if ((isColor || INTEGER_KEYS.has(key) || path.includes('.DAMAGE.')) && !Number.isInteger(value)) {
+    errors.push(`${path} must be a whole number (got ${value})`);
+  }
+}
+
+// Walks the overrides alongside the defaults, which double as the schema: same keys, same types
+function validate(overrides: ConfigObject, defaults: ConfigObject, path: string, errors: string[]): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    if (!(key in defaults)) {
+      errors.push(`${keyPath} is not a known setting`);
+      continue;
+    }
+
+    const expected = defaults[key];
+    if (isConfigObject(expected)) {
+      if (isConfigObject(value)) {
+        validate(value, expected, keyPath, errors);
+      } else {
+        errors.push(`${keyPath} must be an object (got ${describe(value)})`);
+      }
+    } else if (value === null && (expected === null || NULLABLE_KEYS.has(key))) {
+      continue;
+    } else if (typeof value === 'number' && (typeof expected === 'number' || expected === null)) {
+      checkNumber(keyPath, key, value, errors);
+    } else if (typeof value !== typeof expected || value === null) {
+      const expectedType = expected === null || NULLABLE_KEYS.has(key) ? 'number or null' : typeof expected;
+      errors.push(`${keyPath} must be a ${expectedType} (got ${describe(value)})`);
+    }
+  }
+}
+
+function merge(target: ConfigObject, overrides: ConfigObject): void {
+  for (const [key, value] of Object.entries(overrides)) {
+    if (isConfigObject(value)) {
+      merge(target[key] as ConfigObject, value);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function valueAt(root: ConfigObject, path: string): unknown {
+  return path.split('.').reduce<unknown>((node, key) => (node as ConfigObject)[key], root);
+}
+
+// Merges designer overrides over the built-in tuning. Must run before the Game is created,
+// since systems read their settings when they're built. Throws with every problem found.
+export function applyConfigOverrides(json: string): void {
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Config is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isConfigObject(overrides)) {
+    throw new Error(`Config must be a JSON object (got ${describe(overrides)})`);
+  }
+
+  const errors: string[] = [];
+  validate(overrides, TUNABLE_CONFIGS, '', errors);
+
+  // Order checks need the final values, so try the merge on a copy first
+  if (errors.length === 0) {
+    const merged = JSON.parse(JSON.stringify(TUNABLE_CONFIGS)) as ConfigObject;
+    merge(merged, overrides);
+    ORDERED_PAIRS.forEach(({ lower, upper, strict }) => {
+      const low = valueAt(merged, lower) as number;
+      const high = valueAt(merged, upper) as number;
+      if (strict ? low >= high : low > high) {
+        errors.push(`${lower} (${low}) must be ${strict ? 'less than' : 'at most'} ${upper} (${high})`);
+      }
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid game config:\n${errors.map(error => `- ${error}`).join('\n')}`);
+  }
+
+  merge(TUNABLE_CONFIGS, overrides);
+}
+
+// Hash of the tuning in effect; replays and saves only reproduce on the exact same values
+export function getConfigFingerprint(): number {
+  const json = JSON.stringify(TUNABLE_CONFIGS);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -17,29 +17,315 @@ export const COLORS = {
   ARROW_FLETCHING: 0xE0E0E0,
   BALL: 0xFF0000,
   TAIL: 0x2C1810,
-  BOWSTRING: 0xFFF8DC
+  BOWSTRING: 0xFFF8DC,
+  ARMOR: 0x8a9aa8
 } as const;
 
 export const GAME_CONFIG = {
   CAMERA_FOV: 75,
   CAMERA_NEAR: 0.1,
   CAMERA_FAR: 1000,
+  DEFAULT_ASPECT: 16 / 9, // Used until a renderer reports the real viewport
   SHADOW_MAP_SIZE: 2048,
   WHEEL_RADIUS: 8,
   ARROW_SPEED: 35,
   GRAVITY: 15,
   BLEDA_SPEED: 10,
   BLEDA_BOUNDS: 15,
-  MIN_SHOTS_FOR_ROAST: 3
+  MIN_SHOTS_FOR_ROAST: 3,
+  WHEEL_START_SPEED: 0.5, // Radians per second
+  WHEEL_SPEED_UP: 1.1, // Wheel speed multiplier per target hit
+  FIXED_TIMESTEP: 1 / 60, // Simulation step in seconds
+  MAX_FRAME_TIME: 0.25 // Longest frame the simulation will catch up on, in seconds
+} as const;
+
+// Wheel speed model, in RPM like the HUD gauge. Hits speed the wheel up, it coasts back
+// down on its own, and past DANGER_RPM hits pay a bonus until it fails at the redline.
+export const WHEEL_CONFIG = {
+  DECELERATION: 1, // RPM lost per second, never below the starting speed
+  MAX_RPM: 50,
+  DANGER_RPM: 30,
+  REDLINE_RPM: 40,
+  DANGER_SCORE_MULTIPLIER: 1.5,
+  REDLINE_SCORE_MULTIPLIER: 2,
+  OVERSPEED_TIME: 5000, // Time above the redline before the wheel fails, ms
+  WOBBLE_DURATION: 1500, // The wheel shakes, then flings every target off
+  WOBBLE_ANGLE: 0.15, // Radians
+  BRAKE_DURATION: 3000, // Then brakes back to its starting speed, no targets spawn meanwhile
+  FLING_SPEED: 15,
+  FLING_DURATION: 1500,
+  // Arrows stick in the rim and plain spokes but glance off armored ones, keeping these shares of their speed
+  ARMOR_BOUNCE: 0.3, // Back out of the wheel
+  ARMOR_GLANCE: 0.6 // Along its face
+} as const;
+
+// Hold to draw the bow, release to shoot. A fuller draw flies faster and flatter, but holding
+// a full draw too long makes the aim tremble.
+export const BOW_CONFIG = {
+  DRAW_TIME: 800, // ms from the first pull to full draw
+  MIN_SPEED_SHARE: 0.4, // Speed of a snap shot, as a share of GAME_CONFIG.ARROW_SPEED
+  STEADY_TIME: 1500, // ms a full draw can be held before the aim starts to tremble
+  TREMBLE_RAMP: 2000, // ms from the first tremble to the worst of it
+  MAX_TREMBLE: 1.5, // Aim wobble at its worst, in world units on the wheel plane
+  STRING_PULL: 0.7 // How far back the string comes at full draw
+} as const;
+
+export enum ArrowType {
+  BROADHEAD = 'BROADHEAD',
+  PIERCING = 'PIERCING',
+  WHISTLING = 'WHISTLING',
+  FIRE = 'FIRE',
+  SPLIT_SHOT = 'SPLIT_SHOT'
+}
+
+// The quiver. One type is nocked at a time, picked with 1-5 or the mouse wheel during a run.
+// COOLDOWN is how long after loosing one before the next arrow can be drawn, in ms.
+export const ARROW_CONFIG = {
+  BROADHEAD: {
+    COOLDOWN: 500,
+    HEAD_COLOR: COLORS.ARROW_HEAD,
+    FLETCHING_COLOR: COLORS.ARROW_FLETCHING,
+    ICON: '🏹',
+    NAME: 'BROADHEAD'
+  },
+  PIERCING: {
+    COOLDOWN: 900,
+    MAX_TARGETS: 3, // Targets it passes through before it stops in the last one
+    HEAD_COLOR: 0xC0C8D0,
+    FLETCHING_COLOR: 0x4682B4,
+    ICON: '🗡️',
+    NAME: 'PIERCING'
+  },
+  WHISTLING: {
+    COOLDOWN: 700,
+    STUN_RADIUS: 4, // Rocks and birds it flies this close to freeze in the air
+    STUN_DURATION: 3000,
+    HEAD_COLOR: 0xF5F5DC,
+    FLETCHING_COLOR: 0x9ACD32,
+    ICON: '🎶',
+    NAME: 'WHISTLING'
+  },
+  FIRE: {
+    COOLDOWN: 1200,
+    BURN_TIME: 1500, // ms a split target burns before the flames finish it, and then each of its pieces
+    HEAD_COLOR: 0xFF4500,
+    FLETCHING_COLOR: 0xB22222,
+    ICON: '🔥',
+    NAME: 'FIRE'
+  },
+  SPLIT_SHOT: {
+    COOLDOWN: 1000,
+    COUNT: 3, // Arrows loosed at once, each counting as a shot
+    SPREAD: 0.08, // Radians between neighbouring arrows
+    HEAD_COLOR: COLORS.ARROW_HEAD,
+    FLETCHING_COLOR: 0xDAA520,
+    ICON: '🔱',
+    NAME: 'SPLIT SHOT'
+  }
+} as const;
+
+// Limited ammunition, switched on from the title screen. Shots come out of the quiver; a reload
+// tops it up from the spares in the saddle bag. Arrows in the ground just ahead of the horse can be ridden past and picked back up.
+export const AMMO_CONFIG = {
+  QUIVER_CAPACITY: 8,
+  START_SPARES: 16,
+  MAX_SPARES: 32,
+  RELOAD_TIME: 1500, // ms, no drawing meanwhile
+  PICKUP_RADIUS: 2, // How far to either side of the horse the rider can lean for an arrow in the ground
+  PICKUP_REACH: 6 // How far ahead of the horse's lane, where low snap shots come down
+} as const;
+
+// Wind pushing arrows sideways and along their flight. Gusts are rolled every few seconds and
+// the wind eases towards them; difficulty and levels scale MAX_STRENGTH.
+export const WIND_CONFIG = {
+  MAX_STRENGTH: 5, // Units per second, at the top of a gust on Normal
+  GUST_INTERVAL_MIN: 3000, // ms
+  GUST_INTERVAL_MAX: 7000,
+  DIRECTION_SHIFT: 0.8, // Radians a gust can swing the direction either way
+  EASE_RATE: 0.8, // Share of the way to the next gust covered per second
+  ARROW_RESPONSE: 0.6, // Arrow acceleration per unit of wind strength
+  PARTICLE_RESPONSE: 0.5 // Share of the wind the scenery particles drift with
+} as const;
+
+export enum GameState {
+  BOOT = 'BOOT',
+  TITLE = 'TITLE',
+  LEVEL_SELECT = 'LEVEL_SELECT',
+  PLAYING = 'PLAYING',
+  PAUSED = 'PAUSED',
+  GAME_OVER = 'GAME_OVER'
+}
+
+// Allowed moves between game states; anything else is a programming error
+export const GAME_STATE_TRANSITIONS: Record<GameState, readonly GameState[]> = {
+  [GameState.BOOT]: [GameState.TITLE],
+  [GameState.TITLE]: [GameState.PLAYING, GameState.LEVEL_SELECT],
+  [GameState.LEVEL_SELECT]: [GameState.TITLE, GameState.PLAYING],
+  [GameState.PLAYING]: [GameState.PAUSED, GameState.GAME_OVER],
+  [GameState.PAUSED]: [GameState.PLAYING, GameState.GAME_OVER],
+  [GameState.GAME_OVER]: [GameState.TITLE, GameState.PLAYING, GameState.LEVEL_SELECT]
+};
+
+export enum GameMode {
+  CLASSIC = 'CLASSIC',
+  ARCADE = 'ARCADE',
+  LEVEL = 'LEVEL' // Scripted stages from levels.ts
+}
+
+export const ARCADE_CONFIG = {
+  DURATION: 60000, // 60 seconds per run
+  COUNTDOWN_WARNING: 10000, // Countdown turns red for the last 10 seconds
+  
+  // Denser spawns so a one-minute run still sees most target types and a few power-ups
+  TARGET_SPAWN_CHECK_INTERVAL: 1500,
+  POWERUP_SPAWN_INTERVAL: 8000,
+  OBSTACLE_SPAWN_INTERVAL: 5000
+} as const;
+
+export enum Difficulty {
+  EASY = 'EASY',
+  NORMAL = 'NORMAL',
+  HARD = 'HARD',
+  NIGHTMARE = 'NIGHTMARE'
+}
+
+// Each preset scales the base tuning below; 1 leaves a value as it is
+export const DIFFICULTY_CONFIG = {
+  [Difficulty.EASY]: {
+    NAME: 'EASY',
+    ICON: '🌱',
+    COLOR: 0x00FF00,
+    OBSTACLE_INTERVAL_SCALE: 1.5,
+    OBSTACLE_CHANCE_SCALE: 0.6,
+    STUN_DURATION_SCALE: 0.5,
+    WHEEL_SPEED_SCALE: 0.7,
+    WHEEL_ACCELERATION_SCALE: 0.5, // Scales how much each hit speeds the wheel up
+    TARGET_LIFETIME_SCALE: 1.5,
+    SPECIAL_TARGET_SCALE: 0.7,
+    POWERUP_INTERVAL_SCALE: 0.7,
+    WIND_SCALE: 0.3 // Scales WIND_CONFIG.MAX_STRENGTH
+  },
+  [Difficulty.NORMAL]: {
+    NAME: 'NORMAL',
+    ICON: '🏹',
+    COLOR: 0xFFFF00,
+    OBSTACLE_INTERVAL_SCALE: 1,
+    OBSTACLE_CHANCE_SCALE: 1,
+    STUN_DURATION_SCALE: 1,
+    WHEEL_SPEED_SCALE: 1,
+    WHEEL_ACCELERATION_SCALE: 1,
+    TARGET_LIFETIME_SCALE: 1,
+    SPECIAL_TARGET_SCALE: 1,
+    POWERUP_INTERVAL_SCALE: 1,
+    WIND_SCALE: 1
+  },
+  [Difficulty.HARD]: {
+    NAME: 'HARD',
+    ICON: '🔥',
+    COLOR: 0xFF8C00,
+    OBSTACLE_INTERVAL_SCALE: 0.75,
+    OBSTACLE_CHANCE_SCALE: 1.25,
+    STUN_DURATION_SCALE: 1.25,
+    WHEEL_SPEED_SCALE: 1.3,
+    WHEEL_ACCELERATION_SCALE: 1.5,
+    TARGET_LIFETIME_SCALE: 0.75,
+    SPECIAL_TARGET_SCALE: 1.2,
+    POWERUP_INTERVAL_SCALE: 1.25,
+    WIND_SCALE: 1.4
+  },
+  [Difficulty.NIGHTMARE]: {
+    NAME: 'NIGHTMARE',
+    ICON: '💀',
+    COLOR: 0xFF0000,
+    OBSTACLE_INTERVAL_SCALE: 0.5,
+    OBSTACLE_CHANCE_SCALE: 1.5,
+    STUN_DURATION_SCALE: 1.5,
+    WHEEL_SPEED_SCALE: 1.6,
+    WHEEL_ACCELERATION_SCALE: 2,
+    TARGET_LIFETIME_SCALE: 0.5,
+    SPECIAL_TARGET_SCALE: 1.5,
+    POWERUP_INTERVAL_SCALE: 1.6,
+    WIND_SCALE: 1.8
+  }
+} as const;
+
+// Adaptive difficulty on top of the chosen preset. The director rates recent play against
+// these targets and moves its level one STEP at a time while the player is outside the band.
+export const DIRECTOR_CONFIG = {
+  ENABLED: true, // Classic runs only; arcade scores have to stay comparable
+  WINDOW: 20000, // Rolling window for performance samples, ms
+  EVALUATION_INTERVAL: 2000,
+  WARMUP: 10000, // The level holds still for the first 10 seconds of a run
+  MIN_SHOTS: 4, // Accuracy counts as on target until this many shots are in the window
+  TARGET_ACCURACY: 0.35,
+  TARGET_COMBO: 2, // Average combo length of recent hits
+  TARGET_STUN_RATE: 2, // Stuns per minute
+  TARGET_SCORE_RATE: 4, // Points per second
+  BAND: 0.2, // Performance within ±BAND of the targets leaves the level alone
+  STEP: 0.1,
+  MAX_LEVEL: 1,
+  // How far each output moves at full level, e.g. 0.3 turns the wheel 30% faster or slower
+  WHEEL_SPEED_RANGE: 0.3,
+  OBSTACLE_RANGE: 0.4,
+  SPECIAL_TARGET_RANGE: 0.5
+} as const;
+
+// Bump whenever gameplay tuning (or a level in levels.ts) changes, so replays recorded on older values are rejected.
+// Tuning overridden by an external config (see config-loader.ts) is caught by its fingerprint instead.
+export const CONFIG_VERSION = 8;
+
+export const REPLAY_CONFIG = {
+  PLAYBACK_SPEEDS: [0.25, 0.5, 1, 2, 4],
+  SEEK_STEP: 5 // Seconds skipped per arrow key press
+} as const;
+
+// Time of day for runs with the day/night cycle on. Purely visual, so it isn't part of the tunable config.
+// Phases run 0 (sunrise), 0.25 (noon), 0.5 (sunset), 0.75 (midnight) and back round to 1.
+export const DAY_NIGHT_CONFIG = {
+  DAY_LENGTH: 120000, // ms for a full day in runs without a time limit
+  START_PHASE: 0.1, // Every run starts mid-morning
+  TIMED_END_PHASE: 0.7, // Timed runs fit into a single day that ends at night
+  SUN_DISTANCE: 25,
+  SUNSET_COLOR: 0xff7a3d,
+  TORCH_COLOR: 0xffaa55,
+  TORCH_INTENSITY: 3,
+  TORCH_DISTANCE: 14,
+  NIGHT_GLOW_BOOST: 2 // Glowing targets shine up to this many times brighter again at midnight
+} as const;
+
+// Dotted path showing where the drawn arrow will fly. It only draws, so like the day/night
+// cycle it stays out of the tunable config. Harder presets show less of the path.
+export const AIM_GUIDE_CONFIG = {
+  MAX_STEPS: 120, // Simulation steps looked ahead
+  DOT_SPACING: 3, // Steps between dots
+  DOT_COLOR: 0xffffff,
+  MARKER_COLOR: 0xff3333,
+  // Share of the flight shown; 0 hides the guide, and only the whole path gets the impact marker
+  LENGTH: {
+    [Difficulty.EASY]: 1,
+    [Difficulty.NORMAL]: 0.6,
+    [Difficulty.HARD]: 0.3,
+    [Difficulty.NIGHTMARE]: 0
+  }
+} as const;
+
+// Arrows left sticking in the wheel and the ground. Mostly for show, so not tunable either,
+// though with limited ammo the ones in the ground can be picked up until they fade.
+export const STUCK_ARROW_CONFIG = {
+  LIFETIME: 8000, // ms an arrow stays before it's gone
+  FADE_TIME: 1000, // The last ms of that, spent fading out
+  MAX_STUCK: 24, // Past this many the oldest goes early
+  GROUND_DEPTH: 0.25 // How far the head sinks into the ground
 } as const;
 
 export const UI_STYLES = {
   RETRO_TEXT_SHADOW: '0 0 10px currentColor, 0 0 20px currentColor',
+  // Follows the environment's HUD palette (see UIManager.applyPalette)
   L33T_TEXT_SHADOW: `
-    0 0 10px #00ff00,
-    3px 3px 0 #008800,
-    6px 6px 0 #004400,
-    9px 9px 0 #002200,
+    0 0 10px var(--hud-accent),
+    3px 3px 0 var(--hud-accent-dark),
+    6px 6px 0 rgba(0,0,0,0.5),
+    9px 9px 0 rgba(0,0,0,0.3),
     12px 12px 15px rgba(0,0,0,0.8)
   `,
   GLITCH_BOX_SHADOW: (color: string) => `
@@ -68,7 +354,9 @@ export const ANIMATION_TIMINGS = {
 export enum PowerUpType {
   RAPID_FIRE = 'RAPID_FIRE',
   EXPLOSIVE_ARROWS = 'EXPLOSIVE_ARROWS',
-  SCORE_MULTIPLIER = 'SCORE_MULTIPLIER'
+  SCORE_MULTIPLIER = 'SCORE_MULTIPLIER',
+  HEALTH = 'HEALTH',
+  QUIVER_REFILL = 'QUIVER_REFILL'
 }
 
 export const POWERUP_CONFIG = {
@@ -113,6 +401,22 @@ export const POWERUP_CONFIG = {
     COLOR: 0x00FF00, // Green
     ICON: '×3',
     NAME: 'TRIPLE SCORE'
+  },
+  
+  HEALTH: {
+    DURATION: 0, // Instant, never shows up as an active power-up
+    HEAL_AMOUNT: 1,
+    COLOR: 0xFF1744, // Red
+    ICON: '❤️',
+    NAME: 'EXTRA HEART'
+  },
+  
+  QUIVER_REFILL: {
+    DURATION: 0, // Instant, and only spawns with limited ammo
+    REFILL_AMOUNT: 12, // Spare arrows added to the saddle bag
+    COLOR: 0xC8A165, // Ash wood
+    ICON: '🪶',
+    NAME: 'QUIVER REFILL'
   }
 } as const;
 
@@ -120,12 +424,19 @@ export const POWERUP_MESSAGES = {
   PICKUP: {
     [PowerUpType.RAPID_FIRE]: '|| R4P1D F1R3 4CT1V4T3D ||',
     [PowerUpType.EXPLOSIVE_ARROWS]: '|| 3XPL0S1V3 4RR0WS L04D3D ||',
-    [PowerUpType.SCORE_MULTIPLIER]: '|| TR1PL3 SC0R3 3N4BL3D ||'
+    [PowerUpType.SCORE_MULTIPLIER]: '|| TR1PL3 SC0R3 3N4BL3D ||',
+    [PowerUpType.HEALTH]: '|| +1 H34RT ||',
+    // Built when shown, since REFILL_AMOUNT can be tuned after this module loads
+    get [PowerUpType.QUIVER_REFILL](): string {
+      return `|| +${POWERUP_CONFIG.QUIVER_REFILL.REFILL_AMOUNT} 4RR0WS ||`;
+    }
   },
   EXPIRE: {
     [PowerUpType.RAPID_FIRE]: '|| R4P1D F1R3 3XP1R3D ||',
     [PowerUpType.EXPLOSIVE_ARROWS]: '|| 3XPL0S1V3S D3PL3T3D ||',
-    [PowerUpType.SCORE_MULTIPLIER]: '|| SC0R3 B00ST 3ND3D ||'
+    [PowerUpType.SCORE_MULTIPLIER]: '|| SC0R3 B00ST 3ND3D ||',
+    [PowerUpType.HEALTH]: '',
+    [PowerUpType.QUIVER_REFILL]: ''
   }
 } as const;
 
@@ -200,9 +511,26 @@ export const OBSTACLE_MESSAGES = {
     [ObstacleType.FLYING_ROCK]: '|| 1NC0M1NG R0CK! ||',
     [ObstacleType.TREE]: '|| W4TCH 0UT! TR33 4H34D ||',
     [ObstacleType.BIRD]: '|| B1RDS 4PPR04CH1NG! ||'
+  },
+  // Only moving obstacles can be frozen by a whistling arrow
+  STUNNED: {
+    [ObstacleType.FLYING_ROCK]: '|| WH1STL3D! R0CK FR0Z3N ||',
+    [ObstacleType.BIRD]: '|| WH1STL3D! B1RD STUNN3D ||'
   }
 } as const;
 
+export const HEALTH_CONFIG = {
+  MAX_HEALTH: 5, // Hearts
+  INVULNERABILITY_DURATION: 1500, // Grace period after taking damage
+  BLINK_INTERVAL: 100, // Bleda flickers while invulnerable
+  DAMAGE: {
+    [ObstacleType.FLYING_ROCK]: 2,
+    [ObstacleType.TREE]: 1,
+    [ObstacleType.BIRD]: 1
+  },
+  PICKUPS_ENABLED: true // Health pickups join the power-up spawn pool
+} as const;
+
 export enum TargetType {
   STANDARD = 'STANDARD',
   GOLD = 'GOLD',
@@ -350,6 +678,15 @@ export const TARGET_CONFIG = {
   }
 } as const;
 
+// Arrows that the wheel stops instead of a target
+export const WHEEL_MESSAGES = {
+  BLOCKED: {
+    rim: '|| THUNK! R1M SH0T ||',
+    spoke: '|| THUNK! SP0K3D ||'
+  },
+  DEFLECTED: '|| CL4NK! 4RM0R3D SP0K3 ||'
+} as const;
+
 export const TARGET_MESSAGES = {
   HIT: {
     [TargetType.STANDARD]: '|| N1C3 SH0T! ||',
@@ -0,0 +1,28 @@
+import * as THREE from 'three';
+import { DAY_NIGHT_CONFIG } from './constants';
+
+export type DayPeriod = 'dawn' | 'day' | 'dusk' | 'night';
+
+// Where the sun is at one moment of a run
+export interface TimeOfDay {
+  phase: number; // 0..1, see DAY_NIGHT_CONFIG
+  sunHeight: number; // -1..1, negative while the sun is below the horizon
+  daylight: number; // 1 in full day, 0 in full night
+  period: DayPeriod;
+}
+
+// `elapsed` is the run's game clock in ms. Timed runs are squeezed into one day that gets darker
+// towards the end, the others loop through whole days.
+export function getTimeOfDay(elapsed: number, runLength: number | null): TimeOfDay {
+  const { START_PHASE, TIMED_END_PHASE, DAY_LENGTH } = DAY_NIGHT_CONFIG;
+  const progress = runLength ? Math.min(1, elapsed / runLength) * (TIMED_END_PHASE - START_PHASE) : elapsed / DAY_LENGTH;
+  const phase = (START_PHASE + progress) % 1;
+  const sunHeight = Math.sin(phase * Math.PI * 2);
+  const daylight = THREE.MathUtils.smoothstep(sunHeight, -0.2, 0.2);
+
+  let period: DayPeriod = sunHeight >= 0 ? 'day' : 'night';
+  if (Math.abs(sunHeight) < 0.2) {
+    period = phase < 0.25 || phase > 0.75 ? 'dawn' : 'dusk';
+  }
+  return { phase, sunHeight, daylight, period };
+}
@@ -0,0 +1,189 @@
+import { DIRECTOR_CONFIG } from './constants';
+import { GameClock } from './game-clock';
+
+// What the director measured at its last evaluation and how it is currently nudging the run
+export interface DirectorStatus {
+  enabled: boolean;
+  level: number; // -MAX_LEVEL (easing off) to MAX_LEVEL (pushing harder)
+  performance: number; // -1 (struggling) to 1 (cruising), 0 is right on target
+  accuracy: number | null; // null until the window holds MIN_SHOTS shots
+  averageCombo: number;
+  stunRate: number; // Per minute
+  scoreRate: number; // Per second
+  wheelSpeedScale: number;
+  obstacleIntervalScale: number;
+  obstacleChanceScale: number;
+  specialTargetScale: number;
+}
+
+export interface DirectorSnapshot {
+  level: number;
+  performance: number;
+  lastEvaluation: number;
+  shots: number[];
+  hits: [number, number][];
+  stuns: number[];
+  scores: [number, number][];
+}
+
+// Watches how the player is doing and scales the pressure to keep them in the challenge band.
+// Samples are stamped with game-clock time so replays and saves steer exactly the same way.
+export class DifficultyDirector {
+  private clock: GameClock;
+  private enabled = false;
+  private level = 0;
+  private performance = 0;
+  private lastEvaluation = 0;
+
+  // Game-clock times of recent events; hits also keep the combo length they reached
+  private shots: number[] = [];
+  private hits: [number, number][] = [];
+  private stuns: number[] = [];
+  private scores: [number, number][] = [];
+
+  constructor(clock: GameClock) {
+    this.clock = clock;
+  }
+
+  public reset(enabled: boolean): void {
+    this.enabled = enabled && DIRECTOR_CONFIG.ENABLED;
+    this.level = 0;
+    this.performance = 0;
+    this.lastEvaluation = this.clock.now();
+    this.shots = [];
+    this.hits = [];
+    this.stuns = [];
+    this.scores = [];
+  }
+
+  public recordShot(): void {
+    this.shots.push(this.clock.now());
+  }
+
+  public recordHit(comboCount: number): void {
+    this.hits.push([this.clock.now(), comboCount]);
+  }
+
+  public recordStun(): void {
+    this.stuns.push(this.clock.now());
+  }
+
+  // Penalties count too, losing points is part of how the run is going
+  public recordScore(delta: number): void {
+    if (delta === 0) return;
+    this.scores.push([this.clock.now(), delta]);
+  }
+
+  // Called once per step; returns the new status whenever the director re-evaluates
+  public update(): DirectorStatus | null {
+    const currentTime = this.clock.now();
+    if (!this.enabled || currentTime - this.lastEvaluation < DIRECTOR_CONFIG.EVALUATION_INTERVAL) {
+      return null;
+    }
+    this.lastEvaluation = currentTime;
+    this.prune(currentTime - DIRECTOR_CONFIG.WINDOW);
+
+    this.performance = this.measurePerformance();
+    // The run clock starts at zero, so early on there isn't enough play to judge yet
+    if (currentTime < DIRECTOR_CONFIG.WARMUP) {
+      return this.getStatus();
+    }
+    if (this.performance > DIRECTOR_CONFIG.BAND) {
+      this.level += DIRECTOR_CONFIG.STEP;
+    } else if (this.performance < -DIRECTOR_CONFIG.BAND) {
+      this.level -= DIRECTOR_CONFIG.STEP;
+    }
+    this.level = Math.max(-DIRECTOR_CONFIG.MAX_LEVEL, Math.min(DIRECTOR_CONFIG.MAX_LEVEL, this.level));
+
+    return this.getStatus();
+  }
+
+  public get wheelSpeedScale(): number {
+    return 1 + this.level * DIRECTOR_CONFIG.WHEEL_SPEED_RANGE;
+  }
+
+  // Busier sky when doing well: obstacles come sooner and more often
+  public get obstacleIntervalScale(): number {
+    return 1 - this.level * DIRECTOR_CONFIG.OBSTACLE_RANGE;
+  }
+
+  public get obstacleChanceScale(): number {
+    return 1 + this.level * DIRECTOR_CONFIG.OBSTACLE_RANGE;
+  }
+
+  // Special targets are the tricky ones (shrinking, ghost, magnetic...), so the mix leans on them
+  public get specialTargetScale(): number {
+    return 1 + this.level * DIRECTOR_CONFIG.SPECIAL_TARGET_RANGE;
+  }
+
+  public getStatus(): DirectorStatus {
+    const seconds = DIRECTOR_CONFIG.WINDOW / 1000;
+    return {
+      enabled: this.enabled,
+      level: this.level,
+      performance: this.performance,
+      accuracy: this.getAccuracy(),
+      averageCombo: this.getAverageCombo(),
+      stunRate: this.stuns.length / (seconds / 60),
+      scoreRate: this.scores.reduce((sum, [, delta]) => sum + delta, 0) / seconds,
+      wheelSpeedScale: this.wheelSpeedScale,
+      obstacleIntervalScale: this.obstacleIntervalScale,
+      obstacleChanceScale: this.obstacleChanceScale,
+      specialTargetScale: this.specialTargetScale
+    };
+  }
+
+  public toSnapshot(): DirectorSnapshot {
+    return {
+      level: this.level,
+      performance: this.performance,
+      lastEvaluation: this.lastEvaluation,
+      shots: this.shots.slice(),
+      hits: this.hits.map(([time, combo]) => [time, combo]),
+      stuns: this.stuns.slice(),
+      scores: this.scores.map(([time, delta]) => [time, delta])
+    };
+  }
+
+  public restoreSnapshot(snapshot: DirectorSnapshot): void {
+    this.level = snapshot.level;
+    this.performance = snapshot.performance;
+    this.lastEvaluation = snapshot.lastEvaluation;
+    this.shots = snapshot.shots.slice();
+    this.hits = snapshot.hits.map(([time, combo]) => [time, combo]);
+    this.stuns = snapshot.stuns.slice();
+    this.scores = snapshot.scores.map(([time, delta]) => [time, delta]);
+  }
+
+  private prune(since: number): void {
+    this.shots = this.shots.filter(time => time >= since);
+    this.hits = this.hits.filter(([time]) => time >= since);
+    this.stuns = this.stuns.filter(time => time >= since);
+    this.scores = this.scores.filter(([time]) => time >= since);
+  }
+
+  private getAccuracy(): number | null {
+    if (this.shots.length < DIRECTOR_CONFIG.MIN_SHOTS) return null;
+    return Math.min(1, this.hits.length / this.shots.length);
+  }
+
+  private getAverageCombo(): number {
+    if (this.hits.length === 0) return 0;
+    return this.hits.reduce((sum, [, combo]) => sum + combo, 0) / this.hits.length;
+  }
+
+  // Each signal is rated -1..1 against its target, then averaged
+  private measurePerformance(): number {
+    const status = this.getStatus();
+    const rate = (value: number, target: number) => Math.max(-1, Math.min(1, (value - target) / target));
+
+    const signals = [
+      status.accuracy === null ? 0 : rate(status.accuracy, DIRECTOR_CONFIG.TARGET_ACCURACY),
+      rate(status.averageCombo, DIRECTOR_CONFIG.TARGET_COMBO),
+      // More stuns than the target means the player is struggling
+      -rate(status.stunRate, DIRECTOR_CONFIG.TARGET_STUN_RATE),
+      rate(status.scoreRate, DIRECTOR_CONFIG.TARGET_SCORE_RATE)
+    ];
+    return signals.reduce((sum, signal) => sum + signal, 0) / signals.length;
+  }
+}
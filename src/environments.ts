@@ -0,0 +1,149 @@
+import { COLORS } from './constants';
+
+export type DecorationKind = 'patch' | 'rock' | 'cactus' | 'pine' | 'drift' | 'lantern';
+export type ParticleKind = 'pollen' | 'dust' | 'snow' | 'fireflies';
+
+// Scattered across the ground; each piece picks one of the colours at random
+export interface DecorationSet {
+  kind: DecorationKind;
+  colors: number[];
+  count: number;
+  spread: number; // Width of the square they are scattered over, centred on the field
+}
+
+export interface LightSpec {
+  color: number;
+  intensity: number;
+}
+
+export interface ParticleSpec {
+  kind: ParticleKind;
+  color: number;
+  count: number;
+  size: number;
+  velocity: [number, number, number]; // Units per second
+  sway: number; // How far each particle wanders off its straight path
+}
+
+// HUD accent colours, applied as CSS variables so every panel picks them up
+export interface HudPalette {
+  accent: string;
+  accentDark: string;
+  glow: string;
+}
+
+export interface EnvironmentDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  sky: number;
+  fog: { color: number; near: number; far: number };
+  ground: number;
+  decorations: DecorationSet[];
+  lighting: {
+    ambient: LightSpec;
+    sun: LightSpec & { position: [number, number, number] };
+    rim: LightSpec;
+  };
+  // What the day/night cycle fades to at midnight; the moon stands in for the sun
+  night: {
+    sky: number;
+    fog: number;
+    ambient: LightSpec;
+    moon: LightSpec;
+  };
+  particles: ParticleSpec | null;
+  hud: HudPalette;
+}
+
+export const ENVIRONMENTS: readonly EnvironmentDefinition[] = [
+  {
+    id: 'steppe',
+    name: 'ST3PP3',
+    icon: '🌾',
+    sky: COLORS.SKY,
+    fog: { color: COLORS.SKY, near: 30, far: 150 },
+    ground: COLORS.GROUND,
+    decorations: [
+      { kind: 'patch', colors: [COLORS.GRASS_DARK, COLORS.GRASS_LIGHT], count: 20, spread: 80 },
+      { kind: 'rock', colors: [COLORS.ROCK], count: 10, spread: 60 }
+    ],
+    lighting: {
+      ambient: { color: 0xffffff, intensity: 0.5 },
+      sun: { color: 0xffd700, intensity: 0.7, position: [10, 20, 5] },
+      rim: { color: COLORS.SKY, intensity: 0.3 }
+    },
+    night: { sky: 0x0e1630, fog: 0x0e1630, ambient: { color: 0x6070a0, intensity: 0.25 }, moon: { color: 0x9db0ff, intensity: 0.3 } },
+    particles: { kind: 'pollen', color: 0xfff5b0, count: 60, size: 0.12, velocity: [0.3, 0.1, 0], sway: 0.6 },
+    hud: { accent: '#00ff00', accentDark: '#008800', glow: 'rgba(0,255,0,0.5)' }
+  },
+  {
+    id: 'desert',
+    name: 'D3S3RT',
+    icon: '🏜️',
+    sky: 0xf6d8a8,
+    fog: { color: 0xe8c894, near: 25, far: 120 },
+    ground: 0xd8b26e,
+    decorations: [
+      { kind: 'patch', colors: [0xc9a060, 0xe4c384], count: 18, spread: 80 },
+      { kind: 'cactus', colors: [0x4f7a3a, 0x3f6a2e], count: 12, spread: 70 },
+      { kind: 'rock', colors: [0xa0583a, 0x8a4a30], count: 10, spread: 60 }
+    ],
+    lighting: {
+      ambient: { color: 0xfff0d8, intensity: 0.6 },
+      sun: { color: 0xffe2a0, intensity: 0.9, position: [15, 25, 0] },
+      rim: { color: 0xffb070, intensity: 0.3 }
+    },
+    night: { sky: 0x1a1430, fog: 0x221a30, ambient: { color: 0x705880, intensity: 0.25 }, moon: { color: 0xc0b8ff, intensity: 0.35 } },
+    particles: { kind: 'dust', color: 0xd9b87a, count: 120, size: 0.1, velocity: [2.5, 0, 0.5], sway: 0.3 },
+    hud: { accent: '#ffaa00', accentDark: '#884400', glow: 'rgba(255,170,0,0.5)' }
+  },
+  {
+    id: 'tundra',
+    name: 'TUNDR4',
+    icon: '❄️',
+    sky: 0xd4e4ee,
+    fog: { color: 0xe8f0f4, near: 15, far: 90 },
+    ground: 0xeef3f7,
+    decorations: [
+      { kind: 'patch', colors: [0xcfe0ec, 0xb8d4e6], count: 16, spread: 80 },
+      { kind: 'drift', colors: [0xffffff, 0xf0f6fa], count: 14, spread: 70 },
+      { kind: 'pine', colors: [0x2f4f3f, 0x27463a], count: 12, spread: 70 }
+    ],
+    lighting: {
+      ambient: { color: 0xdfefff, intensity: 0.6 },
+      sun: { color: 0xeaf4ff, intensity: 0.5, position: [-10, 15, 10] },
+      rim: { color: 0xa8c8ff, intensity: 0.4 }
+    },
+    night: { sky: 0x10203a, fog: 0x1a2a40, ambient: { color: 0x8098c0, intensity: 0.3 }, moon: { color: 0xc8e0ff, intensity: 0.4 } },
+    particles: { kind: 'snow', color: 0xffffff, count: 250, size: 0.15, velocity: [0.4, -1.5, 0], sway: 0.8 },
+    hud: { accent: '#66ddff', accentDark: '#1f6688', glow: 'rgba(102,221,255,0.5)' }
+  },
+  {
+    id: 'night-festival',
+    name: 'N1GHT F3ST1V4L',
+    icon: '🏮',
+    sky: 0x0b0d2a,
+    fog: { color: 0x0b0d2a, near: 20, far: 100 },
+    ground: 0x1c261c,
+    decorations: [
+      { kind: 'patch', colors: [0x152015, 0x243224], count: 20, spread: 80 },
+      { kind: 'lantern', colors: [0xff5533, 0xffaa33, 0xff44cc], count: 16, spread: 60 },
+      { kind: 'rock', colors: [0x3a3a48], count: 8, spread: 60 }
+    ],
+    lighting: {
+      ambient: { color: 0x8080c0, intensity: 0.45 },
+      sun: { color: 0xaab4ff, intensity: 0.4, position: [-10, 20, 5] },
+      rim: { color: 0xff7744, intensity: 0.5 }
+    },
+    night: { sky: 0x04050f, fog: 0x04050f, ambient: { color: 0x505090, intensity: 0.25 }, moon: { color: 0x8890ff, intensity: 0.25 } },
+    particles: { kind: 'fireflies', color: 0xffee66, count: 80, size: 0.2, velocity: [0, 0.15, 0], sway: 1.5 },
+    hud: { accent: '#ff44cc', accentDark: '#881166', glow: 'rgba(255,68,204,0.5)' }
+  }
+];
+
+export const DEFAULT_ENVIRONMENT_ID = 'steppe';
+
+export function getEnvironment(id: string): EnvironmentDefinition | undefined {
+  return ENVIRONMENTS.find(environment => environment.id === id);
+}
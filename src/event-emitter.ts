@@ -0,0 +1,29 @@
+type Listener<T> = (payload: T) => void;
+
+// Minimal strongly typed pub/sub; the event map decides which payload each event carries
+export class EventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns an unsubscribe function so consumers don't need to keep the listener around
+  public on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    let eventListeners = this.listeners[event];
+    if (!eventListeners) {
+      eventListeners = new Set();
+      this.listeners[event] = eventListeners;
+    }
+    eventListeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  public off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    this.listeners[event]?.forEach(listener => listener(payload));
+  }
+
+  public clear(): void {
+    this.listeners = {};
+  }
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+interface ScheduledCallback {
+  at: number;
+  callback: () => void;
+}
+
+// Simulation time source shared by every gameplay system. Time only moves when
+// the simulation steps, so timers behave the same at any frame rate.
+export class GameClock {
+  private currentTime = 0;
+  private scheduled: ScheduledCallback[] = [];
+
+  // Milliseconds of simulated time since the clock started
+  public now(): number {
+    return this.currentTime;
+  }
+
+  public advance(deltaMs: number): void {
+    this.currentTime += deltaMs;
+
+    const due = this.scheduled.filter(entry => entry.at <= this.currentTime);
+    if (due.length === 0) return;
+
+    this.scheduled = this.scheduled.filter(entry => entry.at > this.currentTime);
+    due
+      .sort((a, b) => a.at - b.at)
+      .forEach(entry => entry.callback());
+  }
+
+  // Runs the callback once the simulation has advanced by delayMs, replacing setTimeout for gameplay
+  public schedule(delayMs: number, callback: () => void): void {
+    this.scheduled.push({ at: this.currentTime + delayMs, callback });
+  }
+
+  // Jumps to a saved time; pending callbacks are dropped, their owners reschedule what they still need
+  public restore(time: number): void {
+    this.currentTime = time;
+    this.scheduled = [];
+  }
+
+  public reset(): void {
+    this.currentTime = 0;
+    this.scheduled = [];
+  }
+}
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { ArrowType, Difficulty, GameMode, GameState, PowerUpType, ObstacleType, TargetType } from './constants';
+import { DirectorStatus } from './difficulty-director';
+import { TimeOfDay } from './day-night';
+import { WheelStatus, WheelZone } from './wheel-motor';
+import { WheelPart } from './wheel';
+import { WindStatus } from './wind';
+
+export interface ActivePowerUpStatus {
+  type: PowerUpType;
+  remaining: number;
+}
+
+export interface ReplayStatus {
+  time: number; // Seconds into the replay
+  duration: number;
+  speed: number;
+  paused: boolean;
+}
+
+// Goal progress for the level being played; goals the level doesn't set are null
+export interface LevelStatus {
+  levelId: string;
+  score: number;
+  scoreGoal: number | null;
+  targetsCleared: number;
+  targetsGoal: number | null;
+}
+
+export type RunEndReason = 'defeated' | 'timeUp' | 'quit' | 'levelComplete' | 'levelFailed';
+
+// The bow while it is drawn, for the HUD draw meter
+export interface BowStatus {
+  charge: number; // 0..1, full draw at 1
+  tremble: number; // 0..1, how badly an over-held draw shakes the aim
+}
+
+// Arrows left with limited ammo, for the HUD quiver count
+export interface AmmoStatus {
+  quiver: number;
+  capacity: number;
+  spares: number; // In the saddle bag, for reloads
+  reload: number | null; // 0..1 through a reload, null when not reloading
+}
+
+// Everything observable that happens during a run. UIManager is just one subscriber;
+// audio, stats or achievements can listen the same way without touching gameplay code.
+
+export interface GameEvents {
+  stateChanged: { previous: GameState; current: GameState };
+  runStarted: { seed: number; mode: GameMode; difficulty: Difficulty; level: string | null; replay: boolean };
+  difficultyChanged: { difficulty: Difficulty };
+  // Whenever the scenery is rebuilt: a new pick on the title screen, or a level with its own
+  environmentChanged: { environmentId: string };
+  dayNightChanged: { enabled: boolean };
+  aimGuideChanged: { enabled: boolean };
+  limitedAmmoChanged: { enabled: boolean };
+  runEnded: { mode: GameMode; reason: RunEndReason };
+  // On the level select screen, whenever the highlighted level changes
+  levelSelected: { levelId: string; unlocked: boolean };
+  // Precedes runEnded for level runs; stars are 0 unless the level was completed
+  levelEnded: { levelId: string; completed: boolean; stars: number; score: number };
+  // Follows runStarted when a saved game is loaded, with the counters the HUD keeps itself
+  snapshotLoaded: {
+    score: number;
+    shotsFired: number;
+    shotsHit: number;
+    comboCount: number;
+    comboMultiplier: number;
+    activePowerUps: ActivePowerUpStatus[];
+  };
+  // A split shot sends one of these per arrow
+  shotFired: { isExplosive: boolean; charge: number; arrowType: ArrowType };
+  arrowTypeChanged: { type: ArrowType };
+  reloadStarted: { duration: number };
+  // Picked back up out of the ground by riding over it
+  arrowRetrieved: Record<string, never>;
+  targetSpawned: { type: TargetType };
+  // chained hits come from explosions, flames or a piercing arrow after its first target, rather than a landed shot
+  targetHit: {
+    type: TargetType;
+    basePoints: number;
+    points: number;
+    scoreMultiplier: number;
+    comboMultiplier: number;
+    wheelMultiplier: number; // Danger zone bonus
+    chained: boolean;
+  };
+  targetExpired: { type: TargetType };
+  // An arrow ran into the rim or a spoke; armored spokes send it glancing off
+  arrowBlocked: { part: WheelPart; deflected: boolean };
+  scoreChanged: { score: number; delta: number };
+  comboChanged: { count: number; multiplier: number };
+  mysteryRevealed: { message: string };
+  obstacleWarning: { type: ObstacleType };
+  // A whistling arrow flew close enough to freeze it
+  obstacleStunned: { type: ObstacleType.FLYING_ROCK | ObstacleType.BIRD };
+  obstacleHit: { type: ObstacleType; penalty: number; damage: number };
+  healthChanged: { health: number; maxHealth: number; delta: number };
+  powerUpPicked: { type: PowerUpType; duration: number };
+  powerUpExpired: { type: PowerUpType };
+  stunStart: { duration: number };
+  stunEnd: Record<string, never>;
+  wheelZoneChanged: { zone: WheelZone };
+  // Overspeed failure: the wheel wobbles, throws its targets off, then brakes and recovers
+  wheelOverspeed: Record<string, never>;
+  wheelTargetsFlung: { count: number };
+  wheelRecovered: Record<string, never>;
+  // Sent at the start of a run and whenever the adaptive director re-evaluates
+  directorUpdated: DirectorStatus;
+  // Per-frame HUD values, only emitted when a renderer is attached
+  // timeRemaining is null in modes without a time limit
+  frameRendered: {
+    wheel: WheelStatus;
+    activePowerUps: ActivePowerUpStatus[];
+    timeRemaining: number | null;
+    level: LevelStatus | null;
+    replay: ReplayStatus | null;
+    timeOfDay: TimeOfDay | null; // Null while the day/night cycle is off
+    wind: WindStatus;
+    bow: BowStatus | null; // Null while the bow isn't drawn
+    ammo: AmmoStatus | null; // Null unless ammo is limited
+  };
+}
\ No newline at end of file
@@ -1,107 +1,798 @@
 import * as THREE from 'three';
-import { COLORS, GAME_CONFIG, PowerUpType, POWERUP_CONFIG, POWERUP_MESSAGES, ObstacleType, OBSTACLE_CONFIG, OBSTACLE_MESSAGES, TargetType, TARGET_CONFIG, TARGET_MESSAGES } from './constants';
-import { UIManager } from './ui-manager';
+import { COLORS, ArrowType, ARROW_CONFIG, AMMO_CONFIG, AIM_GUIDE_CONFIG, DAY_NIGHT_CONFIG, STUCK_ARROW_CONFIG, GAME_CONFIG, WHEEL_CONFIG, BOW_CONFIG, WIND_CONFIG, CONFIG_VERSION, GameState, GAME_STATE_TRANSITIONS, GameMode, ARCADE_CONFIG, Difficulty, DIFFICULTY_CONFIG, REPLAY_CONFIG, PowerUpType, POWERUP_CONFIG, ObstacleType, OBSTACLE_CONFIG, HEALTH_CONFIG, TargetType, TARGET_CONFIG } from './constants';
+import { EventEmitter } from './event-emitter';
+import { GameEvents, ActivePowerUpStatus, AmmoStatus, BowStatus, LevelStatus, ReplayStatus, RunEndReason } from './game-events';
 import { PowerUp, PowerUpEffect } from './powerup';
-import { Obstacle, FlyingRock, Tree, Bird } from './obstacle';
+import { Obstacle, ObstacleSnapshot, FlyingRock, Tree, Bird } from './obstacle';
 import { Target, StandardTarget, GoldTarget, SpeedTarget, BonusTarget, ShrinkingTarget, SplitTarget, MysteryTarget, GhostTarget, MagneticTarget, ExplosiveTarget } from './target';
+import { GameClock } from './game-clock';
+import { DifficultyDirector } from './difficulty-director';
+import { WheelMotor, WheelMotorEvent, fromRPM } from './wheel-motor';
+import { Wheel, WheelHit, WheelLayout, createDefaultWheelLayout } from './wheel';
+import { Wind } from './wind';
+import { AimGuide, AimImpact } from './aim-guide';
+import { LEVELS, LevelDefinition, getLevel, getStarRating } from './levels';
+import { DEFAULT_ENVIRONMENT_ID, ENVIRONMENTS, EnvironmentDefinition, getEnvironment } from './environments';
+import { Scenery } from './scenery';
+import { TimeOfDay, getTimeOfDay } from './day-night';
+import { SeededRandom } from './seeded-random';
+import { InputFrame, InputSource, LiveInputSource } from './input-source';
+import { InputRecorder, InputRecording, ReplayInputSource } from './replay';
+import { getConfigFingerprint } from './config-loader';
+import { GameSnapshot, SNAPSHOT_FORMAT, decodeTime, encodeTime } from './snapshot';
 
 interface Arrow {
   mesh: THREE.Group | THREE.Mesh;
+  // Simulation positions; the mesh is interpolated between them when rendering
+  position: THREE.Vector3;
+  previousPosition: THREE.Vector3;
   velocity: THREE.Vector3;
   active: boolean;
+  type: ArrowType;
+  hitsLeft: number; // Targets it can still hit; piercing arrows fly on until this runs out
   isExplosive?: boolean;
+  // Game time it stuck into the wheel or the ground; null while it flies or waits in the pool
+  stuckAt: number | null;
+  stuckIn: number | null; // Index of the wheel it's stuck in; null in the ground
+  materials: THREE.Material[]; // Its own, so it can fade without fading the others
+}
+
+// From the middle of an arrow to the point of its head
+const ARROW_TIP = 0.55;
+const UP = new THREE.Vector3(0, 1, 0);
+
+export interface GameOptions {
+  clock?: GameClock;
+  random?: SeededRandom;
 }
 
 export class Game {
   private scene: THREE.Scene;
   private camera: THREE.PerspectiveCamera;
-  private renderer: THREE.WebGLRenderer;
-  private clock: THREE.Clock;
+  private renderer: THREE.WebGLRenderer | null = null;
+  private frameClock: THREE.Clock;
+  private gameClock: GameClock;
+  private random: SeededRandom;
+  // An injected random source means the caller wants that exact run replayed on every restart
+  private readonly keepSeed: boolean;
+  private accumulator = 0;
+  private state = GameState.BOOT;
+  private mode = GameMode.CLASSIC;
+  private difficulty = Difficulty.NORMAL;
+  // Adjusts the pressure within a run on top of the difficulty preset
+  private director: DifficultyDirector;
+  
+  // Level mode: the level being played, how far through its script the run is, and goal progress
+  private level: LevelDefinition | null = null;
+  private levelCursor = 0;
+  private targetsCleared = 0;
+  // The player's pick for non-level runs, and the scenery currently built (levels bring their own)
+  private environmentId = DEFAULT_ENVIRONMENT_ID;
+  private scenery: Scenery | null = null;
+  // Runs go from morning into the night when on; cosmetic, like the environment
+  private dayNightCycle = false;
+  // The player's setting; the difficulty decides how much of the path it shows
+  private aimGuideEnabled = true;
+  private aimGuide = new AimGuide();
+  // Picked on the title screen too, but it changes the rules, so recordings and saves carry it
+  private limitedAmmo = false;
+  
+  // Highlighted on the level select screen, and which levels the player has unlocked so far
+  private selectedLevel = 0;
+  private unlockedLevels = new Set(LEVELS.filter(level => level.unlockStars === 0).map(level => level.id));
+  
+  // Spawn pacing for the current run, in ms
+  private spawnIntervals = this.getSpawnIntervals(GameMode.CLASSIC);
   
   // Game objects
   private bleda!: THREE.Group;
-  private wheel!: THREE.Group;
+  // Every wheel of the current layout; targets know which one they ride by index
+  private wheels: Wheel[] = [];
   private targets: Target[] = [];
   private arrows: Arrow[] = [];
-  private ground!: THREE.Mesh;
   private bow!: THREE.Group;
+  // The string is two halves meeting at the nock, so it can be pulled back into a V
+  private bowStrings: THREE.Mesh[] = [];
+  // The arm that reaches down to the saddle bag on a reload, and the shafts showing in the quiver
+  private reloadArm!: THREE.Mesh;
+  private quiverShafts: THREE.Mesh[] = [];
+  // One for each arrow type, shown on the string while drawing
+  private nockedArrows = {} as Record<ArrowType, THREE.Object3D>;
+  // Lit as the light fades
+  private torch!: THREE.Group;
+  private torchLight!: THREE.PointLight;
   private horseLegAnimation = 0;
   
   // Game state
-  private mousePosition = new THREE.Vector2();
+  // Where the bow points, on the wheel plane; world space keeps replays independent of the window's shape
+  private aimPoint = new THREE.Vector3(0, 0, -15);
+  private aimPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 15);
   private raycaster = new THREE.Raycaster();
-  private wheelSpeed = 0.5;
+  private wheelMotor: WheelMotor;
+  private wind: Wind;
   private score = 0;
   private bledaPosition = { x: 0, z: 15 };
+  private previousBledaX = 0;
   private bledaVelocity = { x: 0 };
+  private cameraShakeOffset = new THREE.Vector2();
+  
+  // Input and replays
+  private liveInput = new LiveInputSource();
+  private replay: ReplayInputSource | null = null;
+  private recorder: InputRecorder | null = null;
+  private stepCount = 0;
+  private endReason: RunEndReason = 'quit';
+  private playbackSpeed = 1;
+  private replayPaused = false;
+  private seeking = false;
   
   // Material cache
   private materials: Map<string, THREE.Material> = new Map();
   
-  // UI Manager
-  private uiManager: UIManager;
+  // Gameplay events for the HUD and any other observers
+  public readonly events = new EventEmitter<GameEvents>();
   
   // Power-ups
   private powerUps: PowerUp[] = [];
   private activePowerUps: PowerUpEffect[] = [];
-  private lastPowerUpSpawn = 0;
-  private arrowCooldown = 500; // Default cooldown in ms
-  private lastArrowShot = 0;
+  private lastPowerUpSpawn = -Infinity;
+  private arrowType = ArrowType.BROADHEAD;
+  private arrowCooldown: number = ARROW_CONFIG.BROADHEAD.COOLDOWN; // Set by the type of the last arrow loosed, ms
+  private lastArrowShot = -Infinity;
+  // Game-clock time the current draw began, null while the bow is relaxed
+  private drawStartedAt: number | null = null;
+  // Limited ammo only: arrows ready to shoot, spares in the saddle bag, and when a reload is done
+  private quiverArrows: number = AMMO_CONFIG.QUIVER_CAPACITY;
+  private spareArrows: number = AMMO_CONFIG.START_SPARES;
+  private reloadEndsAt: number | null = null;
   private scoreMultiplier = 1;
   
   // Obstacles
   private obstacles: Obstacle[] = [];
-  private lastObstacleSpawn = 0;
+  private lastObstacleSpawn = -Infinity;
   private isStunned = false;
   private stunnedUntil = 0;
   
+  // Health
+  private health: number = HEALTH_CONFIG.MAX_HEALTH;
+  private invulnerableUntil = 0;
+  
   // Targets
-  private lastTargetCheck = 0;
+  private lastTargetCheck = -Infinity;
+  private pendingTargetSpawns: number[] = [];
   
   // Combo system
   private comboCount = 0;
-  private lastHitTime = 0;
+  private lastHitTime = -Infinity;
   private comboMultiplier = 1;
   
+  // Game stats
+  private shotsFired = 0;
+  private shotsHit = 0;
+  
   // Controls
   private keys = {
     left: false,
     right: false
   };
   
-  constructor(container: HTMLElement) {
+  // Builds the simulation only; rendering and HUD are attached separately so the game can run headless
+  constructor(options: GameOptions = {}) {
     // Scene setup
     this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(COLORS.SKY);
-    this.scene.fog = new THREE.Fog(COLORS.SKY, 30, 150);
     
     // Camera setup
     this.camera = new THREE.PerspectiveCamera(
       GAME_CONFIG.CAMERA_FOV,
-      window.innerWidth / window.innerHeight,
+      GAME_CONFIG.DEFAULT_ASPECT,
       GAME_CONFIG.CAMERA_NEAR,
       GAME_CONFIG.CAMERA_FAR
     );
     this.camera.position.set(0, 10, 25);
     this.camera.lookAt(0, 5, 0);
-    
-    // Renderer setup
+    // Aim raycasts need the world matrix before any render pass has computed it
+    this.camera.updateMatrixWorld();
+    
+    this.frameClock = new THREE.Clock();
+    this.gameClock = options.clock ?? new GameClock();
+    this.random = options.random ?? new SeededRandom();
+    this.keepSeed = options.random !== undefined;
+    this.director = new DifficultyDirector(this.gameClock);
+    this.wheelMotor = new WheelMotor(this.gameClock);
+    this.wind = new Wind(this.gameClock, this.random);
+    
+    this.showEnvironment(this.getSelectedEnvironment());
+    this.createBleda();
+    this.scene.add(this.aimGuide.root);
+    this.buildWheels([createDefaultWheelLayout()]);
+    this.spawnStandardTarget();
+  }
+  
+  // Adds WebGL rendering and browser input; without it the game runs headless
+  public attachRenderer(container: HTMLElement): void {
     this.renderer = new THREE.WebGLRenderer({ antialias: true });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
     this.renderer.shadowMap.enabled = true;
     this.renderer.shadowMap.type = THREE.PCFSoftShadowMap;
     container.appendChild(this.renderer.domElement);
+    this.handleResize();
     
-    this.clock = new THREE.Clock();
-    
-    this.setupLighting();
-    this.createGround();
-    this.createBleda();
-    this.createWheel();
     this.setupControls();
+  }
+  
+  public getSeed(): number {
+    return this.random.seed;
+  }
+  
+  public getState(): GameState {
+    return this.state;
+  }
+  
+  // Boot finished (or the results were dismissed): show the title screen
+  public goToTitle(): void {
+    if (this.state !== GameState.BOOT && this.state !== GameState.GAME_OVER && this.state !== GameState.LEVEL_SELECT) return;
+    this.replay = null;
+    this.showEnvironment(this.getSelectedEnvironment());
+    this.transitionTo(GameState.TITLE);
+  }
+  
+  public getMode(): GameMode {
+    return this.mode;
+  }
+  
+  public getDifficulty(): Difficulty {
+    return this.difficulty;
+  }
+  
+  // Chosen on the title screen and kept for every run (and restart) until changed
+  public setDifficulty(difficulty: Difficulty): void {
+    if (this.state !== GameState.BOOT && this.state !== GameState.TITLE) return;
+    this.difficulty = difficulty;
+    this.events.emit('difficultyChanged', { difficulty });
+  }
+  
+  // Level runs go through startLevel instead, they need a level
+  public getEnvironmentId(): string {
+    return this.environmentId;
+  }
+  
+  // Picked on the title screen like the difficulty; purely cosmetic, so replays don't record it
+  public setEnvironment(environmentId: string): void {
+    if (this.state !== GameState.BOOT && this.state !== GameState.TITLE) return;
+    if (!getEnvironment(environmentId)) return;
+    this.environmentId = environmentId;
+    this.showEnvironment(this.getSelectedEnvironment());
+  }
+  
+  public isDayNightCycleOn(): boolean {
+    return this.dayNightCycle;
+  }
+  
+  public setDayNightCycle(enabled: boolean): void {
+    if (this.state !== GameState.BOOT && this.state !== GameState.TITLE) return;
+    if (enabled === this.dayNightCycle) return;
+    this.dayNightCycle = enabled;
+    this.events.emit('dayNightChanged', { enabled });
+  }
+  
+  public isAimGuideOn(): boolean {
+    return this.aimGuideEnabled;
+  }
+  
+  public setAimGuide(enabled: boolean): void {
+    if (this.state !== GameState.BOOT && this.state !== GameState.TITLE) return;
+    if (enabled === this.aimGuideEnabled) return;
+    this.aimGuideEnabled = enabled;
+    this.events.emit('aimGuideChanged', { enabled });
+  }
+  
+  public isLimitedAmmoOn(): boolean {
+    return this.limitedAmmo;
+  }
+  
+  public setLimitedAmmo(enabled: boolean): void {
+    if (this.state !== GameState.BOOT && this.state !== GameState.TITLE) return;
+    if (enabled === this.limitedAmmo) return;
+    this.limitedAmmo = enabled;
+    this.events.emit('limitedAmmoChanged', { enabled });
+  }
+  
+  private getSelectedEnvironment(): EnvironmentDefinition {
+    return getEnvironment(this.environmentId)!;
+  }
+  
+  private showEnvironment(environment: EnvironmentDefinition): void {
+    if (this.scenery?.environment.id === environment.id) return;
+    this.scenery?.dispose();
+    this.scenery = new Scenery(environment);
+    this.scenery.addTo(this.scene);
+    this.events.emit('environmentChanged', { environmentId: environment.id });
+  }
+  
+  public startRun(mode: GameMode = GameMode.CLASSIC): void {
+    if (this.state !== GameState.TITLE || mode === GameMode.LEVEL) return;
+    this.mode = mode;
+    this.level = null;
+    this.replay = null;
+    this.resetRun();
+    this.transitionTo(GameState.PLAYING);
+  }
+  
+  // Progress lives outside the game (see LevelProgress); the game only needs to know what is playable
+  public setUnlockedLevels(levelIds: string[]): void {
+    this.unlockedLevels = new Set(levelIds);
+    if (this.state === GameState.LEVEL_SELECT) {
+      this.selectLevel(0);
+    }
+  }
+  
+  public openLevelSelect(): void {
+    if (this.state !== GameState.TITLE && this.state !== GameState.GAME_OVER) return;
+    this.replay = null;
+    this.selectLevel(0);
+    this.transitionTo(GameState.LEVEL_SELECT);
+  }
+  
+  // Moves the level select highlight, wrapping round; locked levels can be highlighted but not started
+  public selectLevel(offset: number): void {
+    this.selectedLevel = (this.selectedLevel + offset + LEVELS.length) % LEVELS.length;
+    const level = LEVELS[this.selectedLevel];
+    // The backdrop previews where the level is played
+    this.showEnvironment(getEnvironment(level.environment ?? this.environmentId)!);
+    this.events.emit('levelSelected', { levelId: level.id, unlocked: this.unlockedLevels.has(level.id) });
+  }
+  
+  public startLevel(levelId: string = LEVELS[this.selectedLevel].id): void {
+    if (this.state !== GameState.TITLE && this.state !== GameState.LEVEL_SELECT) return;
+    const level = getLevel(levelId);
+    if (!level || !this.unlockedLevels.has(level.id)) return;
+    
+    this.mode = GameMode.LEVEL;
+    this.level = level;
+    this.replay = null;
+    this.resetRun();
+    this.transitionTo(GameState.PLAYING);
+  }
+  
+  // Gameplay timers all run on the game clock, which only advances while playing, so they freeze here too
+  public pause(): void {
+    if (this.state !== GameState.PLAYING) return;
+    // Key-up events are lost while we're away, so don't let a held key carry over
+    this.setMovement(false, false);
+    this.transitionTo(GameState.PAUSED);
+  }
+  
+  public resume(): void {
+    if (this.state !== GameState.PAUSED) return;
+    this.transitionTo(GameState.PLAYING);
+  }
+  
+  public endRun(reason: RunEndReason = 'quit'): void {
+    if (this.state !== GameState.PLAYING && this.state !== GameState.PAUSED) return;
+    this.endReason = reason;
+    if (this.level) {
+      const completed = reason === 'levelComplete';
+      this.events.emit('levelEnded', {
+        levelId: this.level.id,
+        completed,
+        stars: completed ? getStarRating(this.level, this.score) : 0,
+        score: this.score
+      });
+    }
+    this.events.emit('runEnded', { mode: this.mode, reason });
+    this.transitionTo(GameState.GAME_OVER);
+  }
+  
+  // Milliseconds left in a timed run, or null when the mode has no time limit
+  public getTimeRemaining(): number | null {
+    const runLength = this.getRunLength();
+    return runLength === null ? null : Math.max(0, runLength - this.gameClock.now());
+  }
+  
+  private getRunLength(): number | null {
+    if (this.level) return this.level.goals.timeLimit * 1000;
+    return this.mode === GameMode.ARCADE ? ARCADE_CONFIG.DURATION : null;
+  }
+  
+  // Follows the game clock, so replays and seeking show the same sky; menus stay in daylight
+  private getTimeOfDay(): TimeOfDay | null {
+    if (!this.dayNightCycle) return null;
+    if (this.state !== GameState.PLAYING && this.state !== GameState.PAUSED && this.state !== GameState.GAME_OVER) return null;
+    return getTimeOfDay(this.gameClock.now(), this.getRunLength());
+  }
+  
+  // Throws away the current run and starts a fresh one straight away, in the same mode
+  public restart(): void {
+    if (this.state === GameState.BOOT || this.state === GameState.TITLE) return;
+    // Restarting always hands control back to the player
+    this.replay = null;
+    this.resetRun();
+    if (this.state !== GameState.PLAYING) {
+      this.transitionTo(GameState.PLAYING);
+    }
+  }
+  
+  // Input stream of the current (or last) run, ready to save and replay
+  public getRecording(): InputRecording | null {
+    return this.recorder?.toRecording(this.stepCount, this.endReason) ?? null;
+  }
+  
+  public isReplaying(): boolean {
+    return this.replay !== null;
+  }
+  
+  // Plays a recorded run back through the simulation; the same seed and inputs reproduce it exactly
+  public playReplay(recording: InputRecording): void {
+    if (this.state !== GameState.TITLE && this.state !== GameState.GAME_OVER) return;
+    
+    this.replay = new ReplayInputSource(recording);
+    this.mode = recording.mode;
+    this.difficulty = recording.difficulty;
+    this.limitedAmmo = recording.limitedAmmo;
+    this.level = recording.level !== null ? getLevel(recording.level) ?? null : null;
+    this.playbackSpeed = 1;
+    this.replayPaused = false;
+    this.resetRun(recording.seed);
+    this.transitionTo(GameState.PLAYING);
+  }
+  
+  public setReplayPaused(paused: boolean): void {
+    this.replayPaused = paused;
+  }
+  
+  public setPlaybackSpeed(speed: number): void {
+    const speeds = REPLAY_CONFIG.PLAYBACK_SPEEDS;
+    this.playbackSpeed = Math.max(speeds[0], Math.min(speeds[speeds.length - 1], speed));
+  }
+  
+  // Jumps to a point in the replay by resimulating from the start; only the inputs are stored, not the states
+  public seekReplay(seconds: number): void {
+    if (!this.replay || this.state === GameState.TITLE) return;
+    
+    const targetStep = Math.max(0, Math.min(this.replay.recording.totalSteps, Math.round(seconds / GAME_CONFIG.FIXED_TIMESTEP)));
+    if (targetStep < this.stepCount || this.state === GameState.GAME_OVER) {
+      this.resetRun(this.replay.recording.seed);
+      if (this.state !== GameState.PLAYING) {
+        this.transitionTo(GameState.PLAYING);
+      }
+    }
+    
+    this.seeking = true;
+    while (this.stepCount < targetStep && this.state === GameState.PLAYING) {
+      this.step(GAME_CONFIG.FIXED_TIMESTEP);
+    }
+    this.seeking = false;
+  }
+  
+  private getReplayStatus(): ReplayStatus | null {
+    if (!this.replay) return null;
+    return {
+      time: this.stepCount * GAME_CONFIG.FIXED_TIMESTEP,
+      duration: this.replay.recording.totalSteps * GAME_CONFIG.FIXED_TIMESTEP,
+      speed: this.playbackSpeed,
+      paused: this.replayPaused
+    };
+  }
+  
+  private get input(): InputSource {
+    return this.replay ?? this.liveInput;
+  }
+  
+  private transitionTo(next: GameState): void {
+    if (!GAME_STATE_TRANSITIONS[this.state].includes(next)) {
+      throw new Error(`Invalid game state transition: ${this.state} -> ${next}`);
+    }
+    
+    const previous = this.state;
+    this.state = next;
+    this.events.emit('stateChanged', { previous, current: next });
+  }
+  
+  private getSpawnIntervals(mode: GameMode): { target: number; powerUp: number; obstacle: number } {
+    const difficulty = this.difficultyConfig;
+    if (mode === GameMode.ARCADE) {
+      return {
+        target: ARCADE_CONFIG.TARGET_SPAWN_CHECK_INTERVAL,
+        powerUp: ARCADE_CONFIG.POWERUP_SPAWN_INTERVAL * difficulty.POWERUP_INTERVAL_SCALE,
+        obstacle: ARCADE_CONFIG.OBSTACLE_SPAWN_INTERVAL * difficulty.OBSTACLE_INTERVAL_SCALE
+      };
+    }
+    
+    return {
+      target: TARGET_CONFIG.SPAWN_CHECK_INTERVAL,
+      powerUp: POWERUP_CONFIG.SPAWN_INTERVAL * difficulty.POWERUP_INTERVAL_SCALE,
+      obstacle: OBSTACLE_CONFIG.SPAWN_INTERVAL * difficulty.OBSTACLE_INTERVAL_SCALE
+    };
+  }
+  
+  private get difficultyConfig() {
+    return DIFFICULTY_CONFIG[this.difficulty];
+  }
+  
+  // Clears everything a run leaves behind so the next one starts from a clean slate
+  private resetRun(seed: number = this.keepSeed ? this.random.seed : SeededRandom.createSeed()): void {
+    this.gameClock.reset();
+    this.random.reseed(seed);
+    this.accumulator = 0;
+    this.stepCount = 0;
+    this.endReason = 'quit';
+    this.replay?.rewind();
+    // A replay is already a recording, only live runs record their input
+    this.recorder = this.replay ? null : new InputRecorder(seed, this.mode, this.difficulty, this.level?.id ?? null, this.limitedAmmo);
+    this.spawnIntervals = this.getSpawnIntervals(this.mode);
+    this.director.reset(this.mode === GameMode.CLASSIC);
+    this.levelCursor = 0;
+    this.targetsCleared = 0;
+    
+    this.clearObjects();
+    this.scoreMultiplier = 1;
+    this.liveInput.cancelShot();
+    
+    this.score = 0;
+    this.shotsFired = 0;
+    this.shotsHit = 0;
+    this.comboCount = 0;
+    this.comboMultiplier = 1;
+    this.isStunned = false;
+    this.stunnedUntil = 0;
+    this.setHealth(HEALTH_CONFIG.MAX_HEALTH);
+    this.invulnerableUntil = 0;
+    this.bleda.visible = true;
+    
+    this.lastPowerUpSpawn = -Infinity;
+    this.lastArrowShot = -Infinity;
+    this.arrowCooldown = ARROW_CONFIG.BROADHEAD.COOLDOWN;
+    this.drawStartedAt = null;
+    // Every run starts with broadheads nocked
+    this.arrowType = ArrowType.BROADHEAD;
+    this.liveInput.setArrowType(this.arrowType);
+    this.quiverArrows = AMMO_CONFIG.QUIVER_CAPACITY;
+    this.spareArrows = AMMO_CONFIG.START_SPARES;
+    this.reloadEndsAt = null;
+    this.lastObstacleSpawn = -Infinity;
+    this.lastTargetCheck = -Infinity;
+    this.lastHitTime = -Infinity;
+    
+    const startSpeed = this.level ? fromRPM(this.level.wheelStartRpm) : GAME_CONFIG.WHEEL_START_SPEED;
+    this.wheelMotor.reset(startSpeed * this.difficultyConfig.WHEEL_SPEED_SCALE);
+    // Levels bring their own layouts and scenery, so the wheels are rebuilt for every run
+    this.buildWheels(this.level?.wheels ?? [createDefaultWheelLayout()]);
+    this.showEnvironment(getEnvironment(this.level?.environment ?? this.environmentId)!);
+    this.wind.reset(WIND_CONFIG.MAX_STRENGTH * this.difficultyConfig.WIND_SCALE * (this.level?.wind ?? 1));
+    
+    this.bledaPosition.x = 0;
+    this.previousBledaX = 0;
+    this.bledaVelocity.x = 0;
+    this.bleda.position.x = 0;
+    this.bleda.position.y = 1;
+    this.horseLegAnimation = 0;
+    
+    // A level's script places its own opening targets
+    if (!this.level) {
+      this.spawnStandardTarget();
+    }
+    this.events.emit('runStarted', {
+      seed: this.random.seed,
+      mode: this.mode,
+      difficulty: this.difficulty,
+      level: this.level?.id ?? null,
+      replay: this.replay !== null
+    });
+    this.events.emit('directorUpdated', this.director.getStatus());
+  }
+  
+  private clearObjects(): void {
+    this.targets.forEach(target => {
+      target.mesh.removeFromParent();
+      target.dispose();
+    });
+    this.targets = [];
+    this.pendingTargetSpawns = [];
+    
+    this.obstacles.forEach(obstacle => {
+      this.scene.remove(obstacle.mesh);
+      obstacle.dispose();
+    });
+    this.obstacles = [];
+    
+    this.powerUps.forEach(powerUp => {
+      this.scene.remove(powerUp.mesh);
+      powerUp.dispose();
+    });
+    this.powerUps = [];
+    this.activePowerUps = [];
+    
+    this.arrows.forEach(arrow => this.deactivateArrow(arrow));
+  }
+  
+  // Captures the run between two steps; loading it continues exactly where it left off
+  public saveSnapshot(): GameSnapshot | null {
+    if (this.state !== GameState.PLAYING && this.state !== GameState.PAUSED) return null;
+    this.restoreSimulatedState();
     
-    // Initialize UI Manager
-    this.uiManager = new UIManager();
+    return {
+      format: SNAPSHOT_FORMAT,
+      configVersion: CONFIG_VERSION,
+      configFingerprint: getConfigFingerprint(),
+      mode: this.mode,
+      difficulty: this.difficulty,
+      level: this.level?.id ?? null,
+      levelCursor: this.levelCursor,
+      targetsCleared: this.targetsCleared,
+      seed: this.random.seed,
+      randomState: this.random.getState(),
+      time: this.gameClock.now(),
+      stepCount: this.stepCount,
+      score: this.score,
+      shotsFired: this.shotsFired,
+      shotsHit: this.shotsHit,
+      comboCount: this.comboCount,
+      comboMultiplier: this.comboMultiplier,
+      scoreMultiplier: this.scoreMultiplier,
+      health: this.health,
+      invulnerableUntil: this.invulnerableUntil,
+      isStunned: this.isStunned,
+      stunnedUntil: this.stunnedUntil,
+      lastPowerUpSpawn: encodeTime(this.lastPowerUpSpawn),
+      lastArrowShot: encodeTime(this.lastArrowShot),
+      arrowCooldown: this.arrowCooldown,
+      arrowType: this.arrowType,
+      limitedAmmo: this.limitedAmmo,
+      quiverArrows: this.quiverArrows,
+      spareArrows: this.spareArrows,
+      reloadEndsAt: this.reloadEndsAt,
+      lastObstacleSpawn: encodeTime(this.lastObstacleSpawn),
+      lastTargetCheck: encodeTime(this.lastTargetCheck),
+      lastHitTime: encodeTime(this.lastHitTime),
+      drawStartedAt: this.drawStartedAt,
+      bleda: {
+        x: this.bledaPosition.x,
+        y: this.bleda.position.y,
+        velocityX: this.bledaVelocity.x,
+        legAnimation: this.horseLegAnimation
+      },
+      wheel: {
+        rotations: this.wheels.map(wheel => wheel.rotation),
+        motor: this.wheelMotor.toSnapshot()
+      },
+      director: this.director.toSnapshot(),
+      wind: this.wind.toSnapshot(),
+      targets: this.targets.map(target => target.toSnapshot()),
+      pendingTargetSpawns: this.pendingTargetSpawns.slice(),
+      // Stuck arrows too, since the ones in the ground can be picked up; theirs is the transform in the wheel or the world
+      arrows: this.arrows.filter(arrow => arrow.active || arrow.stuckAt !== null).map(arrow => ({
+        position: (arrow.stuckAt === null ? arrow.position : arrow.mesh.position).toArray(),
+        velocity: arrow.velocity.toArray(),
+        quaternion: arrow.mesh.quaternion.toArray() as THREE.Vector4Tuple,
+        type: arrow.type,
+        hitsLeft: arrow.hitsLeft,
+        isExplosive: arrow.isExplosive ?? false,
+        stuckAt: arrow.stuckAt,
+        stuckIn: arrow.stuckIn
+      })),
+      powerUps: this.powerUps.map(powerUp => powerUp.toSnapshot()),
+      activePowerUps: this.activePowerUps.map(effect => ({ ...effect })),
+      obstacles: this.obstacles.map(obstacle => obstacle.toSnapshot())
+    };
+  }
+  
+  // Rebuilds a saved run and leaves it paused, so the player can get their bearings first.
+  // A loaded run isn't recorded: its replay would need every input since the seed.
+  public loadSnapshot(snapshot: GameSnapshot): void {
+    if (this.state === GameState.BOOT) return;
+    
+    this.mode = snapshot.mode;
+    this.difficulty = snapshot.difficulty;
+    this.limitedAmmo = snapshot.limitedAmmo;
+    this.level = snapshot.level !== null ? getLevel(snapshot.level) ?? null : null;
+    this.replay = null;
+    this.resetRun(snapshot.seed);
+    this.recorder = null;
+    this.clearObjects();
+    
+    this.gameClock.restore(snapshot.time);
+    this.stepCount = snapshot.stepCount;
+    // Before the targets, which are placed on the wheels as they are added
+    this.wheels.forEach((wheel, index) => wheel.restore(snapshot.wheel.rotations[index], snapshot.time));
+    
+    snapshot.targets.forEach(targetSnapshot => {
+      const target = this.createTarget(targetSnapshot.type, targetSnapshot.wheelAngle, Number(targetSnapshot.data.splitCount ?? 0), targetSnapshot.wheel);
+      target.restoreSnapshot(targetSnapshot);
+      this.addTarget(target);
+    });
+    snapshot.pendingTargetSpawns.forEach(at => this.scheduleTargetSpawn(at - snapshot.time));
+    
+    snapshot.arrows.forEach(arrowSnapshot => {
+      const arrow = this.acquireArrow(arrowSnapshot.type);
+      arrow.position.fromArray(arrowSnapshot.position);
+      arrow.previousPosition.copy(arrow.position);
+      arrow.velocity.fromArray(arrowSnapshot.velocity);
+      arrow.mesh.position.copy(arrow.position);
+      arrow.mesh.quaternion.fromArray(arrowSnapshot.quaternion);
+      arrow.hitsLeft = arrowSnapshot.hitsLeft;
+      arrow.isExplosive = arrowSnapshot.isExplosive;
+      this.applyArrowGlow(arrow);
+      arrow.stuckAt = arrowSnapshot.stuckAt;
+      arrow.stuckIn = arrowSnapshot.stuckIn;
+      if (arrow.stuckIn !== null) {
+        this.wheels[arrow.stuckIn].mount(arrow.mesh);
+      }
+      arrow.active = arrow.stuckAt === null;
+    });
+    
+    snapshot.powerUps.forEach(powerUpSnapshot => {
+      const powerUp = new PowerUp(powerUpSnapshot.type, this.random, new THREE.Vector3().fromArray(powerUpSnapshot.position));
+      powerUp.restoreSnapshot(powerUpSnapshot);
+      this.powerUps.push(powerUp);
+      this.scene.add(powerUp.mesh);
+    });
+    this.activePowerUps = snapshot.activePowerUps.map(effect => ({ ...effect }));
+    this.scoreMultiplier = snapshot.scoreMultiplier;
+    
+    snapshot.obstacles.forEach(obstacleSnapshot => {
+      const obstacle = this.createObstacle(obstacleSnapshot);
+      obstacle.restoreSnapshot(obstacleSnapshot);
+      this.obstacles.push(obstacle);
+      this.scene.add(obstacle.mesh);
+    });
+    
+    this.score = snapshot.score;
+    this.shotsFired = snapshot.shotsFired;
+    this.shotsHit = snapshot.shotsHit;
+    this.comboCount = snapshot.comboCount;
+    this.comboMultiplier = snapshot.comboMultiplier;
+    this.setHealth(snapshot.health);
+    this.invulnerableUntil = snapshot.invulnerableUntil;
+    this.isStunned = snapshot.isStunned;
+    this.stunnedUntil = snapshot.stunnedUntil;
+    this.levelCursor = snapshot.levelCursor;
+    this.targetsCleared = snapshot.targetsCleared;
+    
+    this.lastPowerUpSpawn = decodeTime(snapshot.lastPowerUpSpawn);
+    this.lastArrowShot = decodeTime(snapshot.lastArrowShot);
+    this.arrowCooldown = snapshot.arrowCooldown;
+    this.quiverArrows = snapshot.quiverArrows;
+    this.spareArrows = snapshot.spareArrows;
+    this.reloadEndsAt = snapshot.reloadEndsAt;
+    this.arrowType = snapshot.arrowType;
+    this.liveInput.setArrowType(this.arrowType);
+    this.lastObstacleSpawn = decodeTime(snapshot.lastObstacleSpawn);
+    this.lastTargetCheck = decodeTime(snapshot.lastTargetCheck);
+    this.lastHitTime = decodeTime(snapshot.lastHitTime);
+    this.drawStartedAt = snapshot.drawStartedAt;
+    
+    this.wheelMotor.restoreSnapshot(snapshot.wheel.motor);
+    this.director.restoreSnapshot(snapshot.director);
+    this.wind.restoreSnapshot(snapshot.wind);
+    this.updateWheelWobble();
+    
+    this.bledaPosition.x = snapshot.bleda.x;
+    this.previousBledaX = this.bledaPosition.x;
+    this.bledaVelocity.x = snapshot.bleda.velocityX;
+    this.bleda.position.x = this.bledaPosition.x;
+    this.bleda.position.y = snapshot.bleda.y;
+    this.horseLegAnimation = snapshot.bleda.legAnimation;
+    
+    // Rebuilding the objects above drew numbers, so the sequence is restored last
+    this.random.setState(snapshot.randomState);
+    
+    this.events.emit('snapshotLoaded', {
+      score: this.score,
+      shotsFired: this.shotsFired,
+      shotsHit: this.shotsHit,
+      comboCount: this.comboCount,
+      comboMultiplier: this.comboMultiplier,
+      activePowerUps: this.getActivePowerUpStatus()
+    });
+    this.events.emit('directorUpdated', this.director.getStatus());
+    this.events.emit('arrowTypeChanged', { type: this.arrowType });
+    if (this.isStunned) {
+      this.events.emit('stunStart', { duration: this.stunnedUntil - this.gameClock.now() });
+    }
+    
+    if (this.state !== GameState.PLAYING && this.state !== GameState.PAUSED) {
+      this.transitionTo(GameState.PLAYING);
+    }
+    this.pause();
   }
   
   // Helper method to get or create material
@@ -210,78 +901,6 @@ export class Game {
   }
   
   
-  private setupLighting(): void {
-    const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
-    this.scene.add(ambientLight);
-    
-    const directionalLight = new THREE.DirectionalLight(0xffd700, 0.7);
-    directionalLight.position.set(10, 20, 5);
-    directionalLight.castShadow = true;
-    directionalLight.shadow.camera.left = -20;
-    directionalLight.shadow.camera.right = 20;
-    directionalLight.shadow.camera.top = 20;
-    directionalLight.shadow.camera.bottom = -20;
-    directionalLight.shadow.camera.near = 0.1;
-    directionalLight.shadow.camera.far = 50;
-    directionalLight.shadow.mapSize.width = GAME_CONFIG.SHADOW_MAP_SIZE;
-    directionalLight.shadow.mapSize.height = GAME_CONFIG.SHADOW_MAP_SIZE;
-    this.scene.add(directionalLight);
-    
-    // Add a subtle rim light
-    const rimLight = new THREE.DirectionalLight(COLORS.SKY, 0.3);
-    rimLight.position.set(-5, 10, -10);
-    this.scene.add(rimLight);
-  }
-  
-  private createGround(): void {
-    const groundGeometry = new THREE.PlaneGeometry(100, 100);
-    this.ground = this.createMesh(groundGeometry, COLORS.GROUND, {
-      rotation: { x: -Math.PI / 2 },
-      receiveShadow: true
-    });
-    this.scene.add(this.ground);
-    
-    // Add grass patches using array-based creation
-    const grassPatchGeometry = new THREE.CircleGeometry(2, 8);
-    const grassPatches = this.createMultiple(20, () => {
-      const grassColor = Math.random() > 0.5 ? COLORS.GRASS_DARK : COLORS.GRASS_LIGHT;
-      const randomScale = Math.random() * 0.5 + 0.5;
-      return this.createMesh(grassPatchGeometry, grassColor, {
-        position: {
-          x: (Math.random() - 0.5) * 80,
-          y: 0.01,
-          z: (Math.random() - 0.5) * 80
-        },
-        rotation: { x: -Math.PI / 2 },
-        scale: { x: randomScale, y: randomScale, z: 1 },
-        receiveShadow: true
-      });
-    });
-    grassPatches.forEach(patch => this.scene.add(patch));
-    
-    // Add decorative rocks using array-based creation
-    const rockGeometry = new THREE.DodecahedronGeometry(0.3, 0);
-    const rocks = this.createMultiple(10, () => {
-      const randomScale = Math.random() * 0.5 + 0.5;
-      return this.createMesh(rockGeometry, COLORS.ROCK, {
-        position: {
-          x: (Math.random() - 0.5) * 60,
-          y: 0.15,
-          z: (Math.random() - 0.5) * 60
-        },
-        rotation: {
-          x: Math.random() * Math.PI,
-          y: Math.random() * Math.PI,
-          z: Math.random() * Math.PI
-        },
-        scale: randomScale,
-        castShadow: true,
-        receiveShadow: true
-      });
-    });
-    rocks.forEach(rock => this.scene.add(rock));
-  }
-  
   private createBleda(): void {
     this.bleda = new THREE.Group();
     
@@ -396,6 +1015,7 @@ export class Game {
         rotation: config.rot
       })
     );
+    this.reloadArm = leftArm;
     
     const riderLegGeometry = this.createGeometry('capsule', 0.2, 0.8, 4, 6);
     const [leftLeg, rightLeg] = [
@@ -431,6 +1051,14 @@ export class Game {
       });
     });
     arrowsInQuiver.forEach(arrow => riderGroup.add(arrow));
+    this.quiverShafts = arrowsInQuiver;
+    
+    // Saddle bag with the spare arrows, reached into on a reload
+    const saddleBag = this.createPositionedMesh(
+      this.createGeometry('box', 0.7, 0.6, 0.3),
+      COLORS.QUIVER,
+      { x: -1.1, y: 0.6, z: 1.0 }
+    );
     
     // Bow - more detailed composite bow
     const bowGroup = new THREE.Group();
@@ -439,16 +1067,24 @@ export class Game {
       COLORS.QUIVER
     );
     
-    const bowString = this.createMesh(
-      this.createGeometry('cylinder', 0.02, 0.02, 3, 4),
-      COLORS.BOWSTRING,
-      { rotation: { z: Math.PI / 2 } }
-    );
+    // Unit length, stretched from each tip to the nock by updateBowString
+    const stringGeometry = this.createGeometry('cylinder', 0.02, 0.02, 1, 4);
+    this.bowStrings = [-1, 1].map(() => this.createMesh(stringGeometry, COLORS.BOWSTRING));
     
     bowGroup.add(bowCurve);
-    bowGroup.add(bowString);
+    this.bowStrings.forEach(half => bowGroup.add(half));
+    
+    // Shown on the string while drawing, pointing where the bow aims
+    Object.values(ArrowType).forEach(type => {
+      const nockedArrow = this.createArrow(type).mesh;
+      nockedArrow.rotation.z = Math.PI / 2;
+      nockedArrow.visible = false;
+      this.nockedArrows[type] = nockedArrow;
+      bowGroup.add(nockedArrow);
+    });
     
     this.bow = bowGroup;
+    this.updateBowString(0);
     this.bow.position.set(-0.5, 2.8, 0);
     this.bow.rotation.z = -Math.PI / 2;
     
@@ -475,47 +1111,67 @@ export class Game {
     legsWithHooves.forEach(leg => this.bleda.add(leg.mesh));
     
     this.bleda.add(tail);
+    this.bleda.add(saddleBag);
     
     // Add rider and bow
     this.bleda.add(riderGroup);
     this.bleda.add(this.bow);
+    this.createTorch();
     
     // Position Bleda
     this.bleda.position.set(this.bledaPosition.x, 1, this.bledaPosition.z);
     this.scene.add(this.bleda);
   }
   
-  private createWheel(): void {
-    this.wheel = new THREE.Group();
-    
-    // Wheel structure - larger and vertical
-    const wheelGeometry = new THREE.TorusGeometry(GAME_CONFIG.WHEEL_RADIUS, 0.4, 8, 30);
-    const wheelMesh = this.createMesh(wheelGeometry, COLORS.ARROW_SHAFT, {
-      castShadow: true
-    });
-    
-    // Wheel spokes - create 8 spokes arranged radially
-    const spokeGeometry = this.createGeometry('box', 0.3, GAME_CONFIG.WHEEL_RADIUS * 2, 0.3);
-    const spokes = this.createMultiple(8, (i) => 
-      this.createMesh(spokeGeometry, COLORS.ARROW_SHAFT, {
-        rotation: { z: (i * Math.PI) / 4 },
-        castShadow: true
-      })
-    );
-    spokes.forEach(spoke => this.wheel.add(spoke));
-    
-    this.wheel.add(wheelMesh);
-    this.wheel.position.set(0, GAME_CONFIG.WHEEL_RADIUS + 2, -15);
-    
-    // Create initial standard target
-    const standardTarget = new StandardTarget(GAME_CONFIG.WHEEL_RADIUS - 0.5, 0);
-    this.targets.push(standardTarget);
-    this.wheel.add(standardTarget.mesh);
-    
-    this.scene.add(this.wheel);
+  // Held in the rider's free hand, opposite the bow; hidden until it gets dark
+  private createTorch(): void {
+    this.torch = new THREE.Group();
+    
+    const handle = new THREE.Mesh(new THREE.CylinderGeometry(0.04, 0.05, 0.8, 6), this.getMaterial(0x4a3020));
+    const flame = new THREE.Mesh(new THREE.ConeGeometry(0.12, 0.3, 8), this.getMaterial(DAY_NIGHT_CONFIG.TORCH_COLOR, 'basic'));
+    flame.position.y = 0.5;
+    this.torchLight = new THREE.PointLight(DAY_NIGHT_CONFIG.TORCH_COLOR, 0, DAY_NIGHT_CONFIG.TORCH_DISTANCE);
+    this.torchLight.position.y = 0.6;
+    
+    this.torch.add(handle, flame, this.torchLight);
+    this.torch.position.set(0.55, 2.7, 0.1);
+    this.torch.rotation.z = -0.3;
+    this.torch.visible = false;
+    this.bleda.add(this.torch);
+  }
+  
+  // Night makes the torch and anything that glows count for more
+  private applyTimeOfDay(time: TimeOfDay | null): void {
+    this.scenery?.setTimeOfDay(time);
+    
+    const darkness = time ? 1 - time.daylight : 0;
+    this.torch.visible = darkness > 0.05;
+    // The flame only flickers while time is moving
+    const flicker = this.state === GameState.PAUSED ? 1 : 0.85 + Math.random() * 0.3;
+    this.torchLight.intensity = DAY_NIGHT_CONFIG.TORCH_INTENSITY * darkness * flicker;
+    this.targets.forEach(target => target.setNightLevel(darkness));
+  }
+  
+  // Replaces the wheels with a new layout; any targets and stuck arrows must be cleared off the old ones first
+  private buildWheels(layouts: WheelLayout[]): void {
+    this.wheels.forEach(wheel => wheel.dispose());
+    this.wheels = layouts.map(layout => new Wheel(layout));
+    this.wheels.forEach(wheel => this.scene.add(wheel.root));
   }
   
-  private createArrow(): Arrow {
+  private spawnStandardTarget(): void {
+    this.addTarget(this.createTarget(TargetType.STANDARD, 0));
+  }
+  
+  private addTarget(target: Target): void {
+    this.targets.push(target);
+    this.wheels[target.wheelIndex].root.add(target.mesh);
+    target.placeOn(this.wheels[target.wheelIndex]);
+  }
+  
+  // Every type shares the broadhead's shape and length, with its own colours and trimmings
+  private createArrow(type: ArrowType): Arrow {
+    const config = ARROW_CONFIG[type];
     const arrowGroup = new THREE.Group();
     
     // Arrow components
@@ -529,8 +1185,8 @@ export class Game {
     );
     
     const head = this.createMesh(
-      this.createGeometry('cone', 0.04, 0.15, 4),
-      COLORS.ARROW_HEAD,
+      this.createGeometry('cone', type === ArrowType.PIERCING ? 0.025 : 0.04, 0.15, 4),
+      config.HEAD_COLOR,
       {
         position: { x: 0.475 },
         rotation: { z: -Math.PI / 2 },
@@ -543,7 +1199,7 @@ export class Game {
     const fletchingGeometry = this.createGeometry('box', 0.1, 0.08, 0.01);
     const fletchings = this.createMultiple(3, (i) => {
       const angle = (i * Math.PI * 2) / 3;
-      return this.createMesh(fletchingGeometry, COLORS.ARROW_FLETCHING, {
+      return this.createMesh(fletchingGeometry, config.FLETCHING_COLOR, {
         position: {
           x: -0.35,
           y: Math.sin(angle) * 0.03,
@@ -568,73 +1224,264 @@ export class Game {
     arrowGroup.add(head);
     arrowGroup.add(nock);
     
+    if (type === ArrowType.WHISTLING) {
+      // A hollow bulb behind the head that whistles in flight
+      arrowGroup.add(this.createMesh(this.createGeometry('sphere', 0.05, 8, 6), config.HEAD_COLOR, {
+        position: { x: 0.36 },
+        scale: { x: 1.4, y: 1, z: 1 }
+      }));
+    } else if (type === ArrowType.FIRE) {
+      // Burning rag wrapped behind the head
+      arrowGroup.add(this.createMesh(this.createGeometry('cylinder', 0.045, 0.045, 0.1, 6), 0xFFA500, {
+        position: { x: 0.35 },
+        rotation: { z: Math.PI / 2 },
+        materialType: 'basic'
+      }));
+    }
+    
+    const materials: THREE.Material[] = [];
+    arrowGroup.traverse(child => {
+      if (child instanceof THREE.Mesh) {
+        child.material = (child.material as THREE.Material).clone();
+        materials.push(child.material);
+      }
+    });
+    
     return {
       mesh: arrowGroup,
+      position: new THREE.Vector3(),
+      previousPosition: new THREE.Vector3(),
       velocity: new THREE.Vector3(),
-      active: false
+      active: false,
+      type,
+      hitsLeft: 0,
+      stuckAt: null,
+      stuckIn: null,
+      materials
     };
   }
   
-  private shoot(): void {
-    // Check cooldown
-    const currentTime = Date.now();
+  // The next arrow can only be nocked once the cooldown has passed
+  private isReloaded(): boolean {
     const actualCooldown = this.hasActivePowerUp(PowerUpType.RAPID_FIRE) 
       ? this.arrowCooldown * POWERUP_CONFIG.RAPID_FIRE.ARROW_COOLDOWN_MULTIPLIER
       : this.arrowCooldown;
-      
-    if (currentTime - this.lastArrowShot < actualCooldown) {
+    return this.gameClock.now() - this.lastArrowShot >= actualCooldown;
+  }
+  
+  // Always true without limited ammo; with it, the quiver can run dry and reloading ties up the hands
+  private hasArrowAtHand(): boolean {
+    return !this.limitedAmmo || (this.quiverArrows > 0 && this.reloadEndsAt === null);
+  }
+  
+  // Tops the quiver up from the spares once RELOAD_TIME has passed; a draw in progress is let down
+  private startReload(): void {
+    if (!this.limitedAmmo || this.reloadEndsAt !== null) return;
+    if (this.quiverArrows >= AMMO_CONFIG.QUIVER_CAPACITY || this.spareArrows === 0) return;
+    this.drawStartedAt = null;
+    this.reloadEndsAt = this.gameClock.now() + AMMO_CONFIG.RELOAD_TIME;
+    this.events.emit('reloadStarted', { duration: AMMO_CONFIG.RELOAD_TIME });
+  }
+  
+  // Finishes reloads and picks up arrows in the ground the horse rides over
+  private updateAmmo(): void {
+    if (!this.limitedAmmo) return;
+    
+    if (this.reloadEndsAt !== null && this.gameClock.now() >= this.reloadEndsAt) {
+      const moved = Math.min(AMMO_CONFIG.QUIVER_CAPACITY - this.quiverArrows, this.spareArrows);
+      this.quiverArrows += moved;
+      this.spareArrows -= moved;
+      this.reloadEndsAt = null;
+    }
+    
+    this.arrows.forEach(arrow => {
+      if (arrow.stuckAt === null || arrow.stuckIn !== null) return;
+      // The horse only runs along its lane, so the rider reaches down into the strip just ahead of it
+      const ahead = this.bledaPosition.z - arrow.mesh.position.z;
+      if (Math.abs(arrow.mesh.position.x - this.bledaPosition.x) < AMMO_CONFIG.PICKUP_RADIUS &&
+          ahead > -AMMO_CONFIG.PICKUP_RADIUS && ahead < AMMO_CONFIG.PICKUP_REACH) {
+        // Into the quiver while it has room, otherwise the saddle bag
+        this.deactivateArrow(arrow);
+        if (this.quiverArrows < AMMO_CONFIG.QUIVER_CAPACITY) {
+          this.quiverArrows++;
+        } else {
+          this.spareArrows = Math.min(AMMO_CONFIG.MAX_SPARES, this.spareArrows + 1);
+        }
+        this.events.emit('arrowRetrieved', {});
+      }
+    });
+  }
+  
+  private getAmmoStatus(): AmmoStatus | null {
+    if (!this.limitedAmmo) return null;
+    return {
+      quiver: this.quiverArrows,
+      capacity: AMMO_CONFIG.QUIVER_CAPACITY,
+      spares: this.spareArrows,
+      reload: this.reloadEndsAt === null ? null : 1 - (this.reloadEndsAt - this.gameClock.now()) / AMMO_CONFIG.RELOAD_TIME
+    };
+  }
+  
+  // Starts a draw while the button is held and lets the arrow go when it comes up
+  private updateDraw(held: boolean): void {
+    if (held && this.drawStartedAt === null && this.isReloaded() && this.hasArrowAtHand()) {
+      this.drawStartedAt = this.gameClock.now();
+    } else if (!held && this.drawStartedAt !== null) {
+      const charge = this.getDrawCharge();
+      this.drawStartedAt = null;
+      this.shoot(charge);
+    }
+  }
+  
+  // 0 when the bow is relaxed, 1 at full draw
+  private getDrawCharge(): number {
+    if (this.drawStartedAt === null) return 0;
+    return Math.min(1, (this.gameClock.now() - this.drawStartedAt) / BOW_CONFIG.DRAW_TIME);
+  }
+  
+  // Creeps in once a full draw has been held past STEADY_TIME
+  private getDrawTremble(): number {
+    if (this.drawStartedAt === null) return 0;
+    const overHeld = this.gameClock.now() - this.drawStartedAt - BOW_CONFIG.DRAW_TIME - BOW_CONFIG.STEADY_TIME;
+    return THREE.MathUtils.clamp(overHeld / BOW_CONFIG.TREMBLE_RAMP, 0, 1);
+  }
+  
+  private getBowStatus(): BowStatus | null {
+    if (this.drawStartedAt === null) return null;
+    return { charge: this.getDrawCharge(), tremble: this.getDrawTremble() };
+  }
+  
+  // Pulls the string back by `charge` of a full draw, with the arrow resting on it
+  private updateBowString(charge: number): void {
+    const nock = new THREE.Vector3(0, -charge * BOW_CONFIG.STRING_PULL, 0);
+    this.bowStrings.forEach((half, index) => {
+      const tip = new THREE.Vector3(index === 0 ? -1.5 : 1.5, 0, 0);
+      const span = nock.clone().sub(tip);
+      half.position.copy(tip).addScaledVector(span, 0.5);
+      half.rotation.z = Math.atan2(span.y, span.x) - Math.PI / 2;
+      half.scale.y = span.length();
+    });
+    Object.values(this.nockedArrows).forEach(arrow => arrow.position.y = nock.y + 0.425);
+  }
+  
+  // `charge` is how far the bow was drawn, from a snap shot at 0 to a full draw at 1
+  private shoot(charge: number): void {
+    if (!this.isReloaded() || !this.hasArrowAtHand()) {
       return;
     }
+    const currentTime = this.gameClock.now();
     this.lastArrowShot = currentTime;
-    
+    this.arrowCooldown = ARROW_CONFIG[this.arrowType].COOLDOWN;
+    
+    // Position arrows at bow location, heading for the aim point; split shots fan out either side of it
+    const position = new THREE.Vector3();
+    const velocity = new THREE.Vector3();
+    this.getLaunch(charge, position, velocity);
+    let count = this.arrowType === ArrowType.SPLIT_SHOT ? ARROW_CONFIG.SPLIT_SHOT.COUNT : 1;
+    if (this.limitedAmmo) {
+      // A split shot with fewer left in the quiver fans out what there is
+      count = Math.min(count, this.quiverArrows);
+      this.quiverArrows -= count;
+    }
+    for (let i = 0; i < count; i++) {
+      const spread = (i - (count - 1) / 2) * ARROW_CONFIG.SPLIT_SHOT.SPREAD;
+      this.loose(charge, position, velocity.clone().applyAxisAngle(UP, spread));
+    }
+  }
+  
+  // Targets an arrow of this type can hit before it stops
+  private getArrowHits(type: ArrowType): number {
+    return type === ArrowType.PIERCING ? ARROW_CONFIG.PIERCING.MAX_TARGETS : 1;
+  }
+  
+  // Sends one arrow of the nocked type on its way; each one counts as a shot
+  private loose(charge: number, position: THREE.Vector3, velocity: THREE.Vector3): void {
     // Increment shots fired
-    this.uiManager.incrementShotsFired();
+    this.shotsFired++;
     
-    // Find an inactive arrow or create a new one
-    let arrow = this.arrows.find(a => !a.active);
-    if (!arrow) {
-      arrow = this.createArrow();
-      this.arrows.push(arrow);
-      this.scene.add(arrow.mesh);
-    }
+    const arrow = this.acquireArrow(this.arrowType);
+    arrow.hitsLeft = this.getArrowHits(arrow.type);
     
     // Check if explosive arrows are active
     arrow.isExplosive = this.hasActivePowerUp(PowerUpType.EXPLOSIVE_ARROWS);
+    this.events.emit('shotFired', { isExplosive: arrow.isExplosive, charge, arrowType: arrow.type });
+    this.director.recordShot();
+    this.applyArrowGlow(arrow);
     
-    // Make explosive arrows glow
-    if (arrow.isExplosive && arrow.mesh instanceof THREE.Group) {
-      const arrowHead = arrow.mesh.children.find(child => child.userData.isHead);
-      if (arrowHead && arrowHead instanceof THREE.Mesh) {
-        const material = arrowHead.material as THREE.MeshLambertMaterial;
-        material.emissive = new THREE.Color(0xFF4500);
-        material.emissiveIntensity = 0.5;
-      }
-    }
+    arrow.position.copy(position);
+    arrow.previousPosition.copy(position);
+    arrow.velocity.copy(velocity);
+    arrow.mesh.position.copy(position);
     
-    // Position arrow at bow location
-    const bowWorldPos = new THREE.Vector3();
-    this.bow.getWorldPosition(bowWorldPos);
-    arrow.mesh.position.copy(bowWorldPos);
+    // Orient arrow to face direction
+    arrow.mesh.lookAt(position.x + velocity.x, position.y + velocity.y, position.z + velocity.z);
+    arrow.mesh.rotateY(-Math.PI / 2); // Turn the head, modeled along +X, to lead
+    arrow.active = true;
+  }
+  
+  // Where an arrow loosed now would start and how fast it would go; returns the aim point
+  private getLaunch(charge: number, position: THREE.Vector3, velocity: THREE.Vector3): THREE.Vector3 {
+    this.bow.getWorldPosition(position);
     
-    // Calculate shooting direction based on mouse position
-    this.raycaster.setFromCamera(this.mousePosition, this.camera);
+    const targetPoint = this.aimPoint.clone();
     
-    // Create a plane at the wheel's position for intersection
-    const targetPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 15); // Adjusted for new wheel position
-    const targetPoint = new THREE.Vector3();
-    this.raycaster.ray.intersectPlane(targetPlane, targetPoint);
+    // A fuller draw sends the arrow faster, so it drops less on the way
+    const speedShare = THREE.MathUtils.lerp(BOW_CONFIG.MIN_SPEED_SHARE, 1, charge);
+    velocity.subVectors(targetPoint, position).normalize().multiplyScalar(GAME_CONFIG.ARROW_SPEED * speedShare);
+    return targetPoint;
+  }
+  
+  // Flies a ghost arrow with the current draw through gravity, wind and magnetic pulls, against the wheels as they stand now
+  private updateAimGuide(bow: BowStatus | null): void {
+    const length = AIM_GUIDE_CONFIG.LENGTH[this.difficulty];
+    if (!bow || !this.aimGuideEnabled || length === 0) {
+      this.aimGuide.hide();
+      return;
+    }
     
-    // Calculate direction from bow to target point
-    const direction = new THREE.Vector3();
-    direction.subVectors(targetPoint, bowWorldPos).normalize();
+    const position = new THREE.Vector3();
+    const velocity = new THREE.Vector3();
+    this.getLaunch(bow.charge, position, velocity);
+    const previous = new THREE.Vector3();
+    const path: THREE.Vector3[] = [];
+    let impact: AimImpact | null = null;
     
-    // Set arrow velocity
-    arrow.velocity.copy(direction).multiplyScalar(GAME_CONFIG.ARROW_SPEED);
+    for (let step = 1; step <= AIM_GUIDE_CONFIG.MAX_STEPS; step++) {
+      previous.copy(position);
+      this.advanceArrow(position, velocity, GAME_CONFIG.FIXED_TIMESTEP);
+      this.targets.forEach(target => {
+        const force = target instanceof MagneticTarget ? target.getMagneticForce(position) : null;
+        if (force) velocity.add(force);
+      });
+      
+      // A real arrow past the edge of the field is gone before it lands anywhere
+      if (position.y > 0 && this.isArrowOutOfBounds(position)) break;
+      impact = this.findAimImpact(previous, position);
+      if (impact) break;
+      if (step % AIM_GUIDE_CONFIG.DOT_SPACING === 0) {
+        path.push(position.clone());
+      }
+    }
     
-    // Orient arrow to face direction
-    arrow.mesh.lookAt(targetPoint);
-    arrow.mesh.rotateY(Math.PI / 2); // Rotate 90 degrees since arrow is modeled along X axis
-    arrow.active = true;
+    // Harder presets only show the start of the flight, and never where it lands
+    const shown = path.slice(0, Math.ceil(path.length * length));
+    this.aimGuide.show(shown, length === 1 ? impact : null);
+  }
+  
+  // What the guide arrow runs into on a step, in the order a real arrow checks: the ground, targets, then rim and spokes
+  private findAimImpact(from: THREE.Vector3, to: THREE.Vector3): AimImpact | null {
+    if (to.y <= 0) {
+      return { point: from.clone().lerp(to, from.y / (from.y - to.y)), normal: new THREE.Vector3(0, 1, 0) };
+    }
+    
+    const target = this.targets.find(target => target.checkCollision(to));
+    if (target) {
+      const facing = this.wheels[target.wheelIndex].root.getWorldQuaternion(new THREE.Quaternion());
+      return { point: to.clone(), normal: new THREE.Vector3(0, 0, 1).applyQuaternion(facing) };
+    }
+    
+    const wheelHit = this.findWheelHit(from, to);
+    return wheelHit ? { point: wheelHit.hit.point, normal: wheelHit.hit.normal } : null;
   }
   
   private checkCollisions(): void {
@@ -652,44 +1499,29 @@ export class Game {
         
         // Apply magnetic force if applicable
         if (target instanceof MagneticTarget) {
-          const magneticForce = target.getMagneticForce(arrow.mesh.position);
+          const magneticForce = target.getMagneticForce(arrow.position);
           if (magneticForce) {
             arrow.velocity.add(magneticForce);
           }
         }
         
-        if (target.checkCollision(arrow.mesh.position)) {
-          // Hit!
+        if (target.checkCollision(arrow.position)) {
+          // Hit! The arrow goes through into the rim behind the target, unless it can pierce on to another
           hitAnyTarget = true;
-          arrow.active = false;
-          arrow.mesh.position.y = -100; // Hide arrow
-          
-          const hitResult = target.onHit();
-          
-          // Calculate score with multipliers
-          const baseScore = hitResult.points;
-          const totalMultiplier = this.scoreMultiplier * this.comboMultiplier;
-          const scoreGain = Math.round(baseScore * totalMultiplier);
-          this.score += scoreGain;
-          
-          // Update combo
-          this.updateCombo();
-          
-          this.wheelSpeed *= 1.1; // Increase wheel speed slightly
-          this.uiManager.updateScore(this.score);
-          this.uiManager.incrementShotsHit();
+          // A shot lands once; the targets a piercing arrow goes on through score like a chain
+          const landedShot = arrow.hitsLeft === this.getArrowHits(arrow.type);
+          arrow.hitsLeft--;
+          if (arrow.hitsLeft <= 0) {
+            this.embedArrow(arrow, this.wheels[target.wheelIndex].getRimPoint(arrow.position), target.wheelIndex);
+          }
           
-          // Show target hit message
-          this.uiManager.showTargetHit(TARGET_MESSAGES.HIT[target.type], target.type, scoreGain);
+          const hitResult = landedShot ? this.scoreArrowHit(target) : this.scoreChainedHit(target);
           
           // Handle special effects
           if (hitResult.special) {
             this.handleSpecialTargetEffect(hitResult.special, target);
           }
           
-          // Create hit effect
-          this.createTargetHitEffect(target);
-          
           // Mark for removal if not already deactivated
           if (!target.isActive) {
             targetsToRemove.push(target);
@@ -699,21 +1531,29 @@ export class Game {
           if (hitResult.special?.type === 'split') {
             const splitAngles = hitResult.special.angles;
             splitAngles.forEach((angle: number) => {
-              const splitTarget = new SplitTarget(
-                GAME_CONFIG.WHEEL_RADIUS - 0.5,
-                angle,
-                hitResult.special.splitLevel
-              );
+              const splitTarget = this.createTarget(TargetType.SPLIT, angle, hitResult.special.splitLevel, target.wheelIndex);
+              // Fire arrows set the pieces alight
+              if (arrow.type === ArrowType.FIRE) {
+                splitTarget.ignite(this.gameClock.now() + ARROW_CONFIG.FIRE.BURN_TIME);
+              }
               newTargetsToAdd.push(splitTarget);
             });
           }
         }
       });
       
+      // Past the targets, the rim and spokes are in the way
+      if (arrow.active) {
+        this.checkWheelBlock(arrow);
+      }
+      if (arrow.active && arrow.type === ArrowType.WHISTLING) {
+        this.scareObstacles(arrow.position);
+      }
+      
       // Update missed targets
       if (!hitAnyTarget && arrow.active) {
         // Check if arrow passed through wheel area
-        if (arrow.mesh.position.z < -20 && arrow.mesh.position.z > -10) {
+        if (arrow.position.z < -20 && arrow.position.z > -10) {
           this.targets.forEach(target => {
             if (target.isActive) {
               target.onMiss();
@@ -727,104 +1567,614 @@ export class Game {
         const index = this.targets.indexOf(target);
         if (index > -1) {
           this.targets.splice(index, 1);
-          this.wheel.remove(target.mesh);
+          target.mesh.removeFromParent();
           target.dispose();
         }
       });
       
       // Add new targets (like splits)
-      newTargetsToAdd.forEach(newTarget => {
-        this.targets.push(newTarget);
-        this.wheel.add(newTarget.mesh);
-      });
+      newTargetsToAdd.forEach(newTarget => this.addTarget(newTarget));
       
       // Check collision with power-ups
       this.powerUps.forEach(powerUp => {
         if (!powerUp.isActive || !arrow.active) return;
         
-        const powerUpDistance = arrow.mesh.position.distanceTo(powerUp.mesh.position);
+        const powerUpDistance = arrow.position.distanceTo(powerUp.mesh.position);
         if (powerUpDistance < POWERUP_CONFIG.PICKUP_RADIUS) {
           // Arrow hit power-up!
-          arrow.active = false;
-          arrow.mesh.position.y = -100; // Hide arrow
+          this.deactivateArrow(arrow);
           this.activatePowerUp(powerUp);
         }
       });
     });
   }
   
-  private setupControls(): void {
-    // Keyboard controls for movement
-    window.addEventListener('keydown', (e) => {
-      switch (e.key.toLowerCase()) {
-        case 'a':
-          this.keys.left = true;
-          break;
-        case 'd':
-          this.keys.right = true;
-          break;
-      }
-    });
-    
-    window.addEventListener('keyup', (e) => {
-      switch (e.key.toLowerCase()) {
-        case 'a':
-          this.keys.left = false;
-          break;
-        case 'd':
-          this.keys.right = false;
-          break;
+  // The first target an arrow reaches: a landed shot, with combo and accuracy credit
+  private scoreArrowHit(target: Target): { points: number, special?: any } {
+    const hitResult = target.onHit();
+    
+    // Calculate score with multipliers
+    const baseScore = hitResult.points;
+    const wheelMultiplier = this.wheelMotor.getScoreMultiplier();
+    const totalMultiplier = this.scoreMultiplier * this.comboMultiplier * wheelMultiplier;
+    const scoreGain = Math.round(baseScore * totalMultiplier);
+    this.score += scoreGain;
+    
+    // Update combo
+    this.updateCombo();
+    
+    // Increase wheel speed slightly
+    this.wheelMotor.speedUp(1 + (GAME_CONFIG.WHEEL_SPEED_UP - 1) * this.difficultyConfig.WHEEL_ACCELERATION_SCALE);
+    this.shotsHit++;
+    this.director.recordHit(this.comboCount);
+    this.director.recordScore(scoreGain);
+    this.events.emit('scoreChanged', { score: this.score, delta: scoreGain });
+    this.events.emit('targetHit', {
+      type: target.type,
+      basePoints: baseScore,
+      points: scoreGain,
+      scoreMultiplier: this.scoreMultiplier,
+      comboMultiplier: this.comboMultiplier,
+      wheelMultiplier,
+      chained: false
+    });
+    
+    // Create hit effect
+    this.createTargetHitEffect(target);
+    if (!target.isActive) {
+      this.targetsCleared++;
+    }
+    return hitResult;
+  }
+  
+  // A whistling arrow freezes the rocks and birds it flies close to
+  private scareObstacles(position: THREE.Vector3): void {
+    this.obstacles.forEach(obstacle => {
+      // Trees don't move anyway
+      if (!obstacle.isActive || obstacle.type === ObstacleType.TREE || obstacle.stunTime > 0) return;
+      if (obstacle.mesh.position.distanceTo(position) < ARROW_CONFIG.WHISTLING.STUN_RADIUS) {
+        obstacle.stun(ARROW_CONFIG.WHISTLING.STUN_DURATION);
+        this.events.emit('obstacleStunned', { type: obstacle.type });
+      }
+    });
+  }
+  
+  // Plain wood takes the arrow; armored spokes turn it away to fall short
+  private checkWheelBlock(arrow: Arrow): void {
+    const wheelHit = this.findWheelHit(arrow.previousPosition, arrow.position);
+    if (!wheelHit) return;
+    const { wheel, hit } = wheelHit;
+    
+    if (hit.armored) {
+      // Split the speed into the part going into the wheel and the part along its face
+      const into = hit.normal.clone().multiplyScalar(arrow.velocity.dot(hit.normal));
+      arrow.velocity.sub(into).multiplyScalar(WHEEL_CONFIG.ARMOR_GLANCE).addScaledVector(into, -WHEEL_CONFIG.ARMOR_BOUNCE);
+      // Back on the side it came from, so it doesn't cross the spoke again next step
+      arrow.position.copy(hit.point).addScaledVector(into.normalize(), -0.05);
+    } else {
+      this.embedArrow(arrow, hit.point, this.wheels.indexOf(wheel));
+    }
+    this.createWheelImpactEffect(hit.point, hit.armored);
+    this.events.emit('arrowBlocked', { part: hit.part, deflected: hit.armored });
+  }
+  
+  // Wheels can stand close enough together for one step to cross two; the first one reached counts
+  private findWheelHit(from: THREE.Vector3, to: THREE.Vector3): { wheel: Wheel; hit: WheelHit } | null {
+    let found: { wheel: Wheel; hit: WheelHit } | null = null;
+    for (const wheel of this.wheels) {
+      const hit = wheel.checkArrowHit(from, to);
+      if (hit && (!found || hit.point.distanceTo(from) < found.hit.point.distanceTo(from))) {
+        found = { wheel, hit };
+      }
+    }
+    return found;
+  }
+  
+  private setupControls(): void {
+    // Keyboard controls for movement
+    window.addEventListener('keydown', (e) => {
+      this.handleMenuKey(e.key.toLowerCase());
+      
+      switch (e.key.toLowerCase()) {
+        case 'a':
+          this.setMovement(true, this.liveInput.right);
+          break;
+        case 'd':
+          this.setMovement(this.liveInput.left, true);
+          break;
+        case 'r':
+          this.reload();
+          break;
+      }
+      
+      // Number keys pick an arrow from the quiver, in the order of the enum
+      const arrowType = Object.values(ArrowType)[Number(e.key) - 1];
+      if (arrowType) this.selectArrowType(arrowType);
+    });
+    
+    window.addEventListener('keyup', (e) => {
+      switch (e.key.toLowerCase()) {
+        case 'a':
+          this.setMovement(false, this.liveInput.right);
+          break;
+        case 'd':
+          this.setMovement(this.liveInput.left, false);
+          break;
+      }
+    });
+    
+    // Mouse movement for aiming
+    window.addEventListener('mousemove', (e) => {
+      this.setAim(
+        (e.clientX / window.innerWidth) * 2 - 1,
+        -(e.clientY / window.innerHeight) * 2 + 1
+      );
+    });
+    
+    // Mouse click starts a run from the title screen; in a run, hold to draw and release to shoot
+    window.addEventListener('click', () => {
+      if (this.state === GameState.TITLE) {
+        this.startRun();
+      } else if (this.state === GameState.LEVEL_SELECT) {
+        this.startLevel();
+      }
+    });
+    window.addEventListener('mousedown', (e) => {
+      if (e.button === 0) this.setDrawing(true);
+    });
+    window.addEventListener('mouseup', (e) => {
+      if (e.button === 0) this.setDrawing(false);
+    });
+    window.addEventListener('wheel', (e) => {
+      if (e.deltaY !== 0) this.cycleArrowType(Math.sign(e.deltaY));
+    });
+    
+    // Auto-pause whenever the player looks away
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) this.pause();
+    });
+    window.addEventListener('blur', () => this.pause());
+    
+    // Add crosshair cursor
+    if (this.renderer) {
+      this.renderer.domElement.style.cursor = 'crosshair';
+    }
+  }
+  
+  // Keys that move between screens; gameplay keys are handled separately
+  private handleMenuKey(key: string): void {
+    if (this.replay && this.state === GameState.PLAYING) {
+      this.handleReplayKey(key);
+      return;
+    }
+    
+    switch (this.state) {
+      case GameState.TITLE: {
+        // Number keys pick a difficulty, in the order of the enum
+        const difficulty = Object.values(Difficulty)[Number(key) - 1];
+        if (key === 'enter') this.startRun(GameMode.CLASSIC);
+        else if (key === 't') this.startRun(GameMode.ARCADE);
+        else if (key === 'm') this.openLevelSelect();
+        else if (key === 'e') this.cycleEnvironment();
+        else if (key === 'n') this.setDayNightCycle(!this.dayNightCycle);
+        else if (key === 'g') this.setAimGuide(!this.aimGuideEnabled);
+        else if (key === 'q') this.setLimitedAmmo(!this.limitedAmmo);
+        else if (difficulty) this.setDifficulty(difficulty);
+        break;
+      }
+      case GameState.LEVEL_SELECT:
+        if (key === 'arrowup' || key === 'arrowleft') this.selectLevel(-1);
+        else if (key === 'arrowdown' || key === 'arrowright') this.selectLevel(1);
+        else if (key === 'enter') this.startLevel();
+        else if (key === 'escape') this.goToTitle();
+        break;
+      case GameState.PLAYING:
+        if (key === 'escape' || key === 'p') this.pause();
+        break;
+      case GameState.PAUSED:
+        if (key === 'escape' || key === 'p') this.resume();
+        else if (key === 'r') this.restart();
+        else if (key === 'q') this.endRun('quit');
+        break;
+      case GameState.GAME_OVER:
+        // Level runs go back to the level list, so the next level is one key away
+        if (key === 'enter' && this.mode === GameMode.LEVEL) this.openLevelSelect();
+        else if (key === 'enter') this.goToTitle();
+        else if (key === 'r') this.restart();
+        break;
+    }
+  }
+  
+  private cycleEnvironment(): void {
+    const index = ENVIRONMENTS.findIndex(environment => environment.id === this.environmentId);
+    this.setEnvironment(ENVIRONMENTS[(index + 1) % ENVIRONMENTS.length].id);
+  }
+  
+  // Replay transport: space pauses, arrows seek, -/+ change speed, Esc stops watching
+  private handleReplayKey(key: string): void {
+    const speeds: readonly number[] = REPLAY_CONFIG.PLAYBACK_SPEEDS;
+    const speedIndex = speeds.indexOf(this.playbackSpeed);
+    const time = this.stepCount * GAME_CONFIG.FIXED_TIMESTEP;
+    
+    switch (key) {
+      case ' ':
+        this.setReplayPaused(!this.replayPaused);
+        break;
+      case 'arrowleft':
+        this.seekReplay(time - REPLAY_CONFIG.SEEK_STEP);
+        break;
+      case 'arrowright':
+        this.seekReplay(time + REPLAY_CONFIG.SEEK_STEP);
+        break;
+      case '-':
+        this.setPlaybackSpeed(speeds[Math.max(0, speedIndex - 1)]);
+        break;
+      case '=':
+      case '+':
+        this.setPlaybackSpeed(speeds[Math.min(speeds.length - 1, speedIndex + 1)]);
+        break;
+      case 'escape':
+        this.endRun('quit');
+        break;
+    }
+  }
+  
+  // Movement, aim and shots go to the live input source and take effect on the next simulation step
+  public setMovement(left: boolean, right: boolean): void {
+    this.liveInput.setMovement(left, right);
+  }
+  
+  // Aim in normalized device coordinates (-1..1 on both axes), taken through the current camera onto the wheel plane
+  public setAim(x: number, y: number): void {
+    this.raycaster.setFromCamera(new THREE.Vector2(x, y), this.camera);
+    const point = new THREE.Vector3();
+    if (this.raycaster.ray.intersectPlane(this.aimPlane, point)) {
+      this.liveInput.setAim(point.x, point.y);
+    }
+  }
+  
+  // Holding draws the bow and letting go shoots; a draw can't start outside a run, but can always end
+  public setDrawing(held: boolean): void {
+    if (held && this.state !== GameState.PLAYING) return;
+    this.liveInput.setDrawing(held);
+  }
+  
+  // Arrow choice is input too, so replays switch arrows on the same step the player did
+  public selectArrowType(type: ArrowType): void {
+    if (this.state !== GameState.PLAYING) return;
+    this.liveInput.setArrowType(type);
+  }
+  
+  // Steps through the quiver, wrapping around at either end
+  public cycleArrowType(direction: number): void {
+    const types = Object.values(ArrowType);
+    const index = types.indexOf(this.liveInput.arrow);
+    this.selectArrowType(types[(index + direction + types.length) % types.length]);
+  }
+  
+  public reload(): void {
+    if (this.state !== GameState.PLAYING) return;
+    this.liveInput.requestReload();
+  }
+  
+  // An instant shot at full draw, for scripts and bots
+  public requestShot(): void {
+    if (this.state !== GameState.PLAYING) return;
+    this.liveInput.requestShot();
+  }
+  
+  private applyInput(input: InputFrame): void {
+    this.keys.left = input.left;
+    this.keys.right = input.right;
+    
+    // An over-held draw shakes the aim; it follows the game clock, so replays shake the same way
+    const tremble = this.getDrawTremble() * BOW_CONFIG.MAX_TREMBLE;
+    const seconds = this.gameClock.now() / 1000;
+    this.aimPoint.set(
+      input.aimX + (Math.sin(seconds * 17) + Math.sin(seconds * 29) * 0.5) * tremble,
+      input.aimY + Math.cos(seconds * 23) * tremble,
+      this.aimPoint.z
+    );
+    
+    // Update bow rotation to follow mouse
+    this.updateBowAim();
+    
+    if (input.reload) {
+      this.startReload();
+    }
+    if (input.arrow !== this.arrowType) {
+      this.arrowType = input.arrow;
+      this.events.emit('arrowTypeChanged', { type: this.arrowType });
+    }
+    
+    this.updateDraw(input.draw);
+    if (input.shoot) {
+      this.shoot(1);
+    }
+  }
+  
+  private updateBowAim(): void {
+    const targetPoint = this.aimPoint;
+    
+    // Make bow look at target point
+    const bowWorldPos = new THREE.Vector3();
+    this.bow.getWorldPosition(bowWorldPos);
+    
+    // Calculate angle for bow rotation
+    const dx = targetPoint.x - bowWorldPos.x;
+    const dy = targetPoint.y - bowWorldPos.y;
+    const angle = Math.atan2(dy, dx);
+    
+    // Apply rotation to bow (adjust for bow's initial rotation)
+    this.bow.rotation.z = angle - Math.PI / 2;
+  }
+  
+  public animate(): void {
+    requestAnimationFrame(() => this.animate());
+    
+    // Clamp long frames (tab switches, breakpoints) so the simulation doesn't spiral trying to catch up
+    const frameTime = Math.min(this.frameClock.getDelta(), GAME_CONFIG.MAX_FRAME_TIME);
+    if (this.state !== GameState.PAUSED) {
+      this.scenery?.update(frameTime);
+    }
+    if (this.state === GameState.PLAYING && !(this.replay && this.replayPaused)) {
+      this.accumulator += frameTime * (this.replay ? this.playbackSpeed : 1);
+    }
+    
+    while (this.accumulator >= GAME_CONFIG.FIXED_TIMESTEP) {
+      this.step(GAME_CONFIG.FIXED_TIMESTEP);
+      this.accumulator -= GAME_CONFIG.FIXED_TIMESTEP;
+    }
+    
+    this.render(this.accumulator / GAME_CONFIG.FIXED_TIMESTEP);
+  }
+  
+  // Advances the simulation by one fixed step; all gameplay timing flows from here
+  public step(deltaTime: number): void {
+    // Only a run in progress moves; menus and pause leave the world frozen
+    if (this.state !== GameState.PLAYING) return;
+    
+    this.gameClock.advance(deltaTime * 1000);
+    this.storePreviousState();
+    
+    this.restoreSimulatedState();
+    
+    // Input is sampled once per step so a recording replays it on exactly the same step
+    const stepIndex = this.stepCount++;
+    const input = this.input.poll(stepIndex);
+    this.recorder?.record(stepIndex, input);
+    this.applyInput(input);
+    
+    this.updateBleda(deltaTime);
+    this.runLevelScript();
+    this.wind.update(deltaTime);
+    
+    // One motor drives every wheel, each turning at its own share of the speed
+    const wheelEvents = this.wheelMotor.update(deltaTime, this.director.wheelSpeedScale);
+    const wheelSpeed = this.getEffectiveWheelSpeed();
+    this.wheels.forEach(wheel => wheel.update(wheelSpeed, deltaTime, this.gameClock.now()));
+    this.updateWheelWobble();
+    wheelEvents.forEach(event => this.handleWheelEvent(event));
+    
+    this.updateArrows(deltaTime);
+    this.updateAmmo();
+    
+    // Update power-ups
+    this.updatePowerUps(deltaTime);
+    
+    // Update obstacles
+    this.updateObstacles(deltaTime);
+    
+    // Update targets
+    const elapsedTime = this.gameClock.now() / 1000;
+    this.updateTargets(deltaTime, elapsedTime);
+    
+    // Check collisions
+    this.checkCollisions();
+    
+    const directorStatus = this.director.update();
+    if (directorStatus) {
+      this.events.emit('directorUpdated', directorStatus);
+    }
+    
+    if (this.level) {
+      this.checkLevelEnd();
+    } else if (this.getTimeRemaining() === 0) {
+      this.endRun('timeUp');
+    }
+    
+    // Runs that were quit end where the recording stops
+    if (this.replay && this.stepCount >= this.replay.recording.totalSteps) {
+      this.endRun(this.replay.recording.endReason);
+    }
+  }
+  
+  // Rendering leaves interpolated transforms behind, put back the simulated ones
+  private restoreSimulatedState(): void {
+    this.bleda.position.x = this.bledaPosition.x;
+    this.wheels.forEach(wheel => wheel.render(1));
+    this.targets.forEach(target => target.render(this.wheels[target.wheelIndex], 1));
+  }
+  
+  private storePreviousState(): void {
+    this.previousBledaX = this.bledaPosition.x;
+    this.wheels.forEach(wheel => wheel.storePreviousState());
+    this.targets.forEach(target => target.storePreviousState());
+    this.arrows.forEach(arrow => arrow.previousPosition.copy(arrow.position));
+  }
+  
+  // Blends the last two simulation states so motion stays smooth between fixed steps
+  private render(alpha: number): void {
+    this.bleda.position.x = THREE.MathUtils.lerp(this.previousBledaX, this.bledaPosition.x, alpha);
+    this.wheels.forEach(wheel => wheel.render(alpha));
+    this.targets.forEach(target => target.render(this.wheels[target.wheelIndex], alpha));
+    this.bleda.visible = !this.isInvulnerable() ||
+      Math.floor(this.gameClock.now() / HEALTH_CONFIG.BLINK_INTERVAL) % 2 === 0;
+    this.arrows.forEach(arrow => {
+      if (arrow.stuckAt === null) {
+        arrow.mesh.position.lerpVectors(arrow.previousPosition, arrow.position, alpha);
+      } else {
+        const fadeStart = STUCK_ARROW_CONFIG.LIFETIME - STUCK_ARROW_CONFIG.FADE_TIME;
+        const age = this.gameClock.now() - arrow.stuckAt;
+        this.setArrowOpacity(arrow, 1 - THREE.MathUtils.clamp((age - fadeStart) / STUCK_ARROW_CONFIG.FADE_TIME, 0, 1));
       }
     });
     
-    // Mouse movement for aiming
-    window.addEventListener('mousemove', (e) => {
-      this.mousePosition.x = (e.clientX / window.innerWidth) * 2 - 1;
-      this.mousePosition.y = -(e.clientY / window.innerHeight) * 2 + 1;
-      
-      // Update bow rotation to follow mouse
-      this.updateBowAim();
-    });
-    
-    // Mouse click for shooting
-    window.addEventListener('click', () => {
-      this.shoot();
+    // Shake only moves the camera for the draw, the simulation keeps aiming from the steady one
+    this.camera.position.x += this.cameraShakeOffset.x;
+    this.camera.position.y += this.cameraShakeOffset.y;
+    const timeOfDay = this.getTimeOfDay();
+    this.applyTimeOfDay(timeOfDay);
+    const bow = this.getBowStatus();
+    this.updateBowString(bow?.charge ?? 0);
+    Object.values(ArrowType).forEach(type => this.nockedArrows[type].visible = bow !== null && type === this.arrowType);
+    this.updateAimGuide(bow);
+    this.renderRider();
+    const wind = this.wind.getStatus();
+    this.scenery?.setWind(this.wind.getVector());
+    this.wheels.forEach(wheel => wheel.updateFlag(wind, this.gameClock.now()));
+    this.renderer?.render(this.scene, this.camera);
+    this.camera.position.x -= this.cameraShakeOffset.x;
+    this.camera.position.y -= this.cameraShakeOffset.y;
+    this.camera.updateMatrixWorld();
+    
+    this.events.emit('frameRendered', {
+      wheel: this.wheelMotor.getStatus(this.director.wheelSpeedScale),
+      activePowerUps: this.getActivePowerUpStatus(),
+      timeRemaining: this.getTimeRemaining(),
+      level: this.getLevelStatus(),
+      replay: this.getReplayStatus(),
+      timeOfDay,
+      wind,
+      bow,
+      ammo: this.getAmmoStatus()
     });
-    
-    // Add crosshair cursor
-    this.renderer.domElement.style.cursor = 'crosshair';
   }
   
-  private updateBowAim(): void {
-    // Calculate world position where mouse ray intersects with a plane
-    this.raycaster.setFromCamera(this.mousePosition, this.camera);
-    const targetPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 15); // Adjusted for new wheel position
-    const targetPoint = new THREE.Vector3();
-    this.raycaster.ray.intersectPlane(targetPlane, targetPoint);
-    
-    // Make bow look at target point
-    const bowWorldPos = new THREE.Vector3();
-    this.bow.getWorldPosition(bowWorldPos);
-    
-    // Calculate angle for bow rotation
-    const dx = targetPoint.x - bowWorldPos.x;
-    const dy = targetPoint.y - bowWorldPos.y;
-    const angle = Math.atan2(dy, dx);
-    
-    // Apply rotation to bow (adjust for bow's initial rotation)
-    this.bow.rotation.z = angle - Math.PI / 2;
+  // The reload animation and the arrows showing in the quiver; purely for show
+  private renderRider(): void {
+    const ammo = this.getAmmoStatus();
+    // Down to the saddle bag halfway through a reload, and back up to the quiver
+    const reach = ammo?.reload != null ? Math.sin(ammo.reload * Math.PI) : 0;
+    this.reloadArm.position.set(-0.1 - reach * 0.5, 2.8 - reach * 0.6, 0.4 + reach * 0.3);
+    this.reloadArm.rotation.set(reach * 0.4, 0, -Math.PI / 3 - reach * 1.2);
+    
+    const shown = ammo ? Math.ceil(ammo.quiver / ammo.capacity * this.quiverShafts.length) : this.quiverShafts.length;
+    this.quiverShafts.forEach((shaft, index) => shaft.visible = index < shown);
   }
   
+  // Spawns every scripted entry whose time has come; the cursor keeps the script from repeating
+  private runLevelScript(): void {
+    if (!this.level) return;
+    
+    const seconds = this.gameClock.now() / 1000;
+    const waves = this.level.waves;
+    while (this.levelCursor < waves.length && waves[this.levelCursor].at <= seconds) {
+      const entry = waves[this.levelCursor++];
+      if ('target' in entry) {
+        this.placeTarget(entry.target, THREE.MathUtils.degToRad(entry.angle), entry.wheel ?? 0);
+      } else if ('obstacle' in entry) {
+        this.placeObstacle(entry.obstacle);
+      } else {
+        this.placePowerUp(entry.powerUp);
+      }
+    }
+  }
   
+  // A level ends at its time limit, or early once nothing is left to shoot and nothing more is coming
+  private checkLevelEnd(): void {
+    const level = this.level!;
+    const goals = level.goals;
+    const goalsMet = (goals.score === undefined || this.score >= goals.score) &&
+      (goals.targetsCleared === undefined || this.targetsCleared >= goals.targetsCleared);
+    
+    const exhausted = this.levelCursor >= level.waves.length &&
+      !level.randomSpawns.targets &&
+      this.targets.length === 0 &&
+      this.pendingTargetSpawns.length === 0;
+    
+    if (this.getTimeRemaining() === 0 || exhausted) {
+      this.endRun(goalsMet ? 'levelComplete' : 'levelFailed');
+    }
+  }
   
+  private getLevelStatus(): LevelStatus | null {
+    if (!this.level) return null;
+    return {
+      levelId: this.level.id,
+      score: this.score,
+      scoreGoal: this.level.goals.score ?? null,
+      targetsCleared: this.targetsCleared,
+      targetsGoal: this.level.goals.targetsCleared ?? null
+    };
+  }
   
+  private getEffectiveWheelSpeed(): number {
+    return this.wheelMotor.getSpeed(this.director.wheelSpeedScale);
+  }
   
+  private handleWheelEvent(event: WheelMotorEvent): void {
+    switch (event.type) {
+      case 'zoneChanged':
+        this.events.emit('wheelZoneChanged', { zone: event.zone });
+        break;
+      case 'failureStarted':
+        this.events.emit('wheelOverspeed', {});
+        this.shakeCamera();
+        break;
+      case 'targetsFlung': {
+        const count = this.targets.filter(target => target.isActive).length;
+        this.targets.forEach(target => this.createFlungTargetEffect(target));
+        this.targets = [];
+        this.events.emit('wheelTargetsFlung', { count });
+        this.shakeCamera();
+        break;
+      }
+      case 'recovered':
+        this.events.emit('wheelRecovered', {});
+        break;
+    }
+  }
   
-  public animate(): void {
-    requestAnimationFrame(() => this.animate());
-    
-    const deltaTime = this.clock.getDelta();
+  // An overspeeding wheel shakes harder and harder until it throws its targets
+  private updateWheelWobble(): void {
+    if (this.wheelMotor.getFailurePhase() !== 'wobble') {
+      this.wheels.forEach(wheel => wheel.setWobble(0, 0));
+      return;
+    }
     
+    const elapsed = this.wheelMotor.getFailureElapsed();
+    const angle = WHEEL_CONFIG.WOBBLE_ANGLE * Math.min(1, elapsed * 1000 / WHEEL_CONFIG.WOBBLE_DURATION);
+    this.wheels.forEach(wheel => wheel.setWobble(Math.sin(elapsed * 23) * angle, Math.sin(elapsed * 31) * angle));
+  }
+  
+  private getActivePowerUpStatus(): ActivePowerUpStatus[] {
+    const currentTime = this.gameClock.now();
+    return this.activePowerUps.map(effect => ({
+      type: effect.type,
+      remaining: effect.duration - (currentTime - effect.startTime)
+    }));
+  }
+  
+  // Runs the simulation as fast as possible, for headless tests and balance runs
+  public simulate(seconds: number): void {
+    const steps = Math.round(seconds / GAME_CONFIG.FIXED_TIMESTEP);
+    for (let i = 0; i < steps; i++) {
+      this.step(GAME_CONFIG.FIXED_TIMESTEP);
+    }
+  }
+  
+  public getStats(): { score: number; shotsFired: number; shotsHit: number; comboCount: number; elapsedTime: number } {
+    return {
+      score: this.score,
+      shotsFired: this.shotsFired,
+      shotsHit: this.shotsHit,
+      comboCount: this.comboCount,
+      elapsedTime: this.gameClock.now()
+    };
+  }
+  
+  private updateBleda(deltaTime: number): void {
     // Update Bleda movement (affected by stun)
     const movementMultiplier = this.isStunned ? OBSTACLE_CONFIG.STUN_MOVEMENT_MULTIPLIER : 1;
     
@@ -865,72 +2215,122 @@ export class Game {
         tailMesh.rotation.x = Math.sin(this.horseLegAnimation * 0.5) * 0.2;
       }
     }
-    
-    // Rotate wheel around Z-axis (like a ferris wheel or wheel of fortune)
-    this.wheel.rotation.z += this.wheelSpeed * deltaTime;
-    
-    // Update RPM display
-    this.uiManager.updateRPM(this.wheelSpeed);
-    
-    // Update arrows
+  }
+  
+  private updateArrows(deltaTime: number): void {
     this.arrows.forEach(arrow => {
       if (arrow.active) {
-        // Update position
-        arrow.mesh.position.add(arrow.velocity.clone().multiplyScalar(deltaTime));
-        
-        // Add gravity to arrows for realistic arc
-        arrow.velocity.y -= GAME_CONFIG.GRAVITY * deltaTime;
+        this.advanceArrow(arrow.position, arrow.velocity, deltaTime);
         
         // Rotate arrow to follow its trajectory
         const direction = arrow.velocity.clone().normalize();
+        arrow.mesh.position.copy(arrow.position);
         arrow.mesh.lookAt(
-          arrow.mesh.position.x + direction.x,
-          arrow.mesh.position.y + direction.y,
-          arrow.mesh.position.z + direction.z
+          arrow.position.x + direction.x,
+          arrow.position.y + direction.y,
+          arrow.position.z + direction.z
         );
-        arrow.mesh.rotateY(Math.PI / 2); // Maintain rotation since arrow is modeled along X axis
+        arrow.mesh.rotateY(-Math.PI / 2); // Keep the head, modeled along +X, leading
         
-        // Deactivate if too far or too low
-        if (arrow.mesh.position.z < -30 || arrow.mesh.position.y < -5 || 
-            arrow.mesh.position.distanceTo(this.bleda.position) > 50) {
-          arrow.active = false;
-          arrow.mesh.position.y = -100;
+        if (arrow.position.y <= 0) {
+          // Stick into the ground where it came down
+          const landing = arrow.previousPosition.clone().lerp(arrow.position, arrow.previousPosition.y / (arrow.previousPosition.y - arrow.position.y));
+          this.embedArrow(arrow, landing.addScaledVector(direction, STUCK_ARROW_CONFIG.GROUND_DEPTH), null);
+        } else if (this.isArrowOutOfBounds(arrow.position)) {
+          // Deactivate if too far
+          this.deactivateArrow(arrow);
         }
+      } else if (arrow.stuckAt !== null && this.gameClock.now() - arrow.stuckAt >= STUCK_ARROW_CONFIG.LIFETIME) {
+        this.deactivateArrow(arrow);
       }
     });
+  }
+  
+  private isArrowOutOfBounds(position: THREE.Vector3): boolean {
+    return position.z < -30 || position.distanceTo(this.bleda.position) > 50;
+  }
+  
+  // One step of flight, shared by real arrows and the aim guide
+  private advanceArrow(position: THREE.Vector3, velocity: THREE.Vector3, deltaTime: number): void {
+    position.addScaledVector(velocity, deltaTime);
     
-    // Update power-ups
-    this.updatePowerUps(deltaTime);
-    
-    // Update obstacles
-    this.updateObstacles(deltaTime);
-    
-    // Update targets
-    const elapsedTime = Date.now() / 1000;
-    this.updateTargets(deltaTime, elapsedTime);
-    
-    // Update active power-ups display
-    const currentTime = Date.now();
-    const activePowerUpsDisplay = this.activePowerUps.map(effect => ({
-      type: effect.type,
-      remaining: effect.duration - (currentTime - effect.startTime)
-    }));
-    this.uiManager.updateActivePowerUps(activePowerUpsDisplay);
-    
-    // Check collisions
-    this.checkCollisions();
+    // Add gravity to arrows for realistic arc, and let the wind carry them off line
+    velocity.y -= GAME_CONFIG.GRAVITY * deltaTime;
+    velocity.addScaledVector(this.wind.getVector(), WIND_CONFIG.ARROW_RESPONSE * deltaTime);
+  }
+  
+  // Leaves a flying arrow stuck where it struck, its head ending at `tip`: in the ground, or turning
+  // with the wheel at index `wheel`
+  private embedArrow(arrow: Arrow, tip: THREE.Vector3, wheel: number | null): void {
+    const stuck = this.arrows.filter(other => other.stuckAt !== null);
+    if (stuck.length >= STUCK_ARROW_CONFIG.MAX_STUCK) {
+      this.deactivateArrow(stuck.reduce((oldest, other) => other.stuckAt! < oldest.stuckAt! ? other : oldest));
+    }
     
-    this.renderer.render(this.scene, this.camera);
+    const direction = arrow.velocity.clone().normalize();
+    arrow.mesh.position.copy(tip).addScaledVector(direction, -ARROW_TIP);
+    arrow.mesh.lookAt(tip.x + direction.x, tip.y + direction.y, tip.z + direction.z);
+    arrow.mesh.rotateY(-Math.PI / 2);
+    arrow.active = false;
+    arrow.stuckAt = this.gameClock.now();
+    arrow.stuckIn = wheel;
+    if (wheel !== null) {
+      this.wheels[wheel].attach(arrow.mesh);
+    }
+  }
+  
+  private setArrowOpacity(arrow: Arrow, opacity: number): void {
+    arrow.materials.forEach(material => {
+      material.opacity = opacity;
+      material.transparent = opacity < 1;
+    });
+  }
+  
+  // Reuses a pooled arrow of the type or creates a new one
+  private acquireArrow(type: ArrowType): Arrow {
+    let arrow = this.arrows.find(a => !a.active && a.stuckAt === null && a.type === type);
+    if (!arrow) {
+      arrow = this.createArrow(type);
+      this.arrows.push(arrow);
+      this.scene.add(arrow.mesh);
+    }
+    return arrow;
+  }
+  
+  // Make explosive arrows glow, and put pooled arrows that glowed before back to normal
+  private applyArrowGlow(arrow: Arrow): void {
+    const arrowHead = arrow.mesh.children.find(child => child.userData.isHead);
+    if (arrowHead && arrowHead instanceof THREE.Mesh) {
+      const material = arrowHead.material as THREE.MeshLambertMaterial;
+      material.emissive.set(arrow.isExplosive ? 0xFF4500 : 0x000000);
+      material.emissiveIntensity = arrow.isExplosive ? 0.5 : 1;
+    }
+  }
+  
+  // Returns an arrow to the pool, pulling it out of whatever it stuck into
+  private deactivateArrow(arrow: Arrow): void {
+    if (arrow.stuckAt !== null) {
+      this.scene.attach(arrow.mesh);
+      this.setArrowOpacity(arrow, 1);
+      arrow.stuckAt = null;
+      arrow.stuckIn = null;
+    }
+    arrow.active = false;
+    arrow.position.y = -100; // Hide arrow
+    arrow.previousPosition.copy(arrow.position);
+    arrow.mesh.position.copy(arrow.position);
   }
   
   public handleResize(): void {
+    if (!this.renderer) return;
+    
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
     this.renderer.setSize(window.innerWidth, window.innerHeight);
   }
   
   public dispose(): void {
-    this.renderer.dispose();
+    this.renderer?.dispose();
     this.scene.traverse((object) => {
       if (object instanceof THREE.Mesh) {
         object.geometry.dispose();
@@ -951,7 +2351,7 @@ export class Game {
     
     // Dispose targets
     this.targets.forEach(target => {
-      this.wheel.remove(target.mesh);
+      target.mesh.removeFromParent();
       target.dispose();
     });
   }
@@ -966,32 +2366,51 @@ export class Game {
     }
     
     // Random chance to spawn
-    if (Math.random() > POWERUP_CONFIG.SPAWN_CHANCE) {
+    if (this.random.next() > POWERUP_CONFIG.SPAWN_CHANCE) {
       return;
     }
     
     // Choose random power-up type
-    const types = Object.values(PowerUpType);
-    const randomType = types[Math.floor(Math.random() * types.length)];
-    
+    const spawnPool = Object.values(PowerUpType).filter(type =>
+      (type !== PowerUpType.HEALTH || HEALTH_CONFIG.PICKUPS_ENABLED) &&
+      (type !== PowerUpType.QUIVER_REFILL || this.limitedAmmo)
+    );
+    this.placePowerUp(this.random.pick(spawnPool));
+  }
+  
+  private placePowerUp(type: PowerUpType): void {
     // Random position in front of Bleda
-    const angle = Math.random() * Math.PI * 2;
-    const radius = Math.random() * POWERUP_CONFIG.SPAWN_RADIUS + 5;
+    const angle = this.random.range(0, Math.PI * 2);
+    const radius = this.random.range(5, POWERUP_CONFIG.SPAWN_RADIUS + 5);
     const position = new THREE.Vector3(
       Math.cos(angle) * radius,
       POWERUP_CONFIG.SPAWN_HEIGHT,
       Math.sin(angle) * radius
     );
     
-    const powerUp = new PowerUp(randomType, position);
+    const powerUp = new PowerUp(type, this.random, position);
     this.powerUps.push(powerUp);
     this.scene.add(powerUp.mesh);
   }
   
   private activatePowerUp(powerUp: PowerUp): void {
+    // Health is applied on the spot instead of running as a timed effect
+    if (powerUp.type === PowerUpType.HEALTH) {
+      powerUp.deactivate();
+      this.setHealth(this.health + POWERUP_CONFIG.HEALTH.HEAL_AMOUNT);
+      this.events.emit('powerUpPicked', { type: powerUp.type, duration: 0 });
+      return;
+    }
+    if (powerUp.type === PowerUpType.QUIVER_REFILL) {
+      powerUp.deactivate();
+      this.spareArrows = Math.min(AMMO_CONFIG.MAX_SPARES, this.spareArrows + POWERUP_CONFIG.QUIVER_REFILL.REFILL_AMOUNT);
+      this.events.emit('powerUpPicked', { type: powerUp.type, duration: 0 });
+      return;
+    }
+    
     const effect: PowerUpEffect = {
       type: powerUp.type,
-      startTime: Date.now(),
+      startTime: this.gameClock.now(),
       duration: this.getPowerUpDuration(powerUp.type)
     };
     
@@ -1005,8 +2424,7 @@ export class Game {
         break;
     }
     
-    // Show pickup message
-    this.uiManager.showPowerUpMessage(POWERUP_MESSAGES.PICKUP[powerUp.type], powerUp.type);
+    this.events.emit('powerUpPicked', { type: powerUp.type, duration: effect.duration });
   }
   
   private getPowerUpDuration(type: PowerUpType): number {
@@ -1017,11 +2435,15 @@ export class Game {
         return POWERUP_CONFIG.EXPLOSIVE_ARROWS.DURATION;
       case PowerUpType.SCORE_MULTIPLIER:
         return POWERUP_CONFIG.SCORE_MULTIPLIER.DURATION;
+      case PowerUpType.HEALTH:
+        return POWERUP_CONFIG.HEALTH.DURATION;
+      case PowerUpType.QUIVER_REFILL:
+        return POWERUP_CONFIG.QUIVER_REFILL.DURATION;
     }
   }
   
   private updatePowerUps(deltaTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.gameClock.now();
     const elapsedTime = currentTime / 1000;
     
     // Update power-up animations
@@ -1047,15 +2469,15 @@ export class Game {
             break;
         }
         
-        // Show expiration message
-        this.uiManager.showPowerUpMessage(POWERUP_MESSAGES.EXPIRE[effect.type], effect.type);
+        this.events.emit('powerUpExpired', { type: effect.type });
         return false;
       }
       return true;
     });
     
     // Check if it's time to spawn a new power-up
-    if (currentTime - this.lastPowerUpSpawn >= POWERUP_CONFIG.SPAWN_INTERVAL) {
+    if (this.level && !this.level.randomSpawns.powerUps) return;
+    if (currentTime - this.lastPowerUpSpawn >= this.spawnIntervals.powerUp) {
       this.spawnPowerUp();
       this.lastPowerUpSpawn = currentTime;
     }
@@ -1067,24 +2489,24 @@ export class Game {
     }
     
     // Random chance to spawn
-    if (Math.random() > OBSTACLE_CONFIG.SPAWN_CHANCE) {
+    const spawnChance = OBSTACLE_CONFIG.SPAWN_CHANCE * this.difficultyConfig.OBSTACLE_CHANCE_SCALE * this.director.obstacleChanceScale;
+    if (this.random.next() > spawnChance) {
       return;
     }
     
     // Choose random obstacle type
-    const types = Object.values(ObstacleType);
-    const randomType = types[Math.floor(Math.random() * types.length)];
-    
+    this.placeObstacle(this.random.pick(Object.values(ObstacleType)));
+  }
+  
+  private placeObstacle(type: ObstacleType): void {
     let obstacle: Obstacle | null = null;
     
-    switch (randomType) {
+    switch (type) {
       case ObstacleType.FLYING_ROCK:
         // Spawn rock from a random direction aimed at player area
-        const angle = Math.random() * Math.PI * 2;
-        const distance = OBSTACLE_CONFIG.MIN_SPAWN_DISTANCE + 
-          Math.random() * (OBSTACLE_CONFIG.MAX_SPAWN_DISTANCE - OBSTACLE_CONFIG.MIN_SPAWN_DISTANCE);
-        const height = OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MIN + 
-          Math.random() * (OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MAX - OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MIN);
+        const angle = this.random.range(0, Math.PI * 2);
+        const distance = this.random.range(OBSTACLE_CONFIG.MIN_SPAWN_DISTANCE, OBSTACLE_CONFIG.MAX_SPAWN_DISTANCE);
+        const height = this.random.range(OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MIN, OBSTACLE_CONFIG.FLYING_ROCK.SPAWN_HEIGHT_MAX);
         
         const rockPosition = new THREE.Vector3(
           Math.cos(angle) * distance,
@@ -1099,39 +2521,38 @@ export class Game {
           this.bledaPosition.z - rockPosition.z
         );
         
-        obstacle = new FlyingRock(rockPosition, targetDirection);
+        obstacle = new FlyingRock(this.random, rockPosition, targetDirection);
         break;
         
       case ObstacleType.TREE:
         // Place tree at random position on ground
-        const treeAngle = Math.random() * Math.PI * 2;
-        const treeDistance = 5 + Math.random() * OBSTACLE_CONFIG.TREE.SPAWN_RADIUS;
+        const treeAngle = this.random.range(0, Math.PI * 2);
+        const treeDistance = this.random.range(5, 5 + OBSTACLE_CONFIG.TREE.SPAWN_RADIUS);
         const treePosition = new THREE.Vector3(
           this.bledaPosition.x + Math.cos(treeAngle) * treeDistance,
           0,
           this.bledaPosition.z + Math.sin(treeAngle) * treeDistance
         );
         
-        obstacle = new Tree(treePosition);
+        obstacle = new Tree(this.random, treePosition);
         break;
         
       case ObstacleType.BIRD:
         // Spawn bird(s) from side of screen
-        const flockSize = OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MIN + 
-          Math.floor(Math.random() * (OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MAX - OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MIN + 1));
+        const flockSize = this.random.int(OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MIN, OBSTACLE_CONFIG.BIRD.FLOCK_SIZE_MAX);
         
-        const side = Math.random() < 0.5 ? -1 : 1;
-        const birdHeight = 3 + Math.random() * 3;
+        const side = this.random.next() < 0.5 ? -1 : 1;
+        const birdHeight = this.random.range(3, 6);
         
         for (let i = 0; i < flockSize; i++) {
           const birdPosition = new THREE.Vector3(
             side * OBSTACLE_CONFIG.MAX_SPAWN_DISTANCE,
             birdHeight + i * 0.5,
-            this.bledaPosition.z + (Math.random() - 0.5) * 10
+            this.bledaPosition.z + this.random.range(-5, 5)
           );
           
           const birdDirection = new THREE.Vector3(-side, 0, 0);
-          const bird = new Bird(birdPosition, birdDirection);
+          const bird = new Bird(this.random, birdPosition, birdDirection);
           
           if (i === 0) {
             obstacle = bird;
@@ -1151,16 +2572,21 @@ export class Game {
   }
   
   private updateObstacles(deltaTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.gameClock.now();
     
     // Update stun status
     if (this.isStunned && currentTime >= this.stunnedUntil) {
       this.isStunned = false;
-      this.uiManager.hideStunEffect();
+      this.events.emit('stunEnd', {});
     }
     
     // Update obstacles
     this.obstacles.forEach(obstacle => {
+      // A stunned obstacle hangs where it was, harmless until it comes to
+      if (obstacle.isActive && obstacle.stunTime > 0) {
+        obstacle.stunTime = Math.max(0, obstacle.stunTime - deltaTime * 1000);
+        return;
+      }
       if (obstacle.isActive) {
         obstacle.update(deltaTime, this.bleda.position);
         
@@ -1172,9 +2598,9 @@ export class Game {
         // Check if obstacle is approaching for warning
         const warningDistance = obstacle.getWarningDistance(this.bleda.position);
         if (warningDistance < OBSTACLE_CONFIG.WARNING_DISTANCE && warningDistance > OBSTACLE_CONFIG.COLLISION_RADIUS) {
-          // Show warning (implement in UI manager)
+          // Only moving obstacles can be "incoming"
           if (obstacle.type === ObstacleType.FLYING_ROCK || obstacle.type === ObstacleType.BIRD) {
-            this.uiManager.showObstacleWarning(OBSTACLE_MESSAGES.WARNING[obstacle.type], obstacle.type);
+            this.events.emit('obstacleWarning', { type: obstacle.type });
           }
         }
       }
@@ -1191,49 +2617,85 @@ export class Game {
     });
     
     // Check if it's time to spawn new obstacles
-    if (currentTime - this.lastObstacleSpawn >= OBSTACLE_CONFIG.SPAWN_INTERVAL) {
+    if (this.level && !this.level.randomSpawns.obstacles) return;
+    if (currentTime - this.lastObstacleSpawn >= this.spawnIntervals.obstacle * this.director.obstacleIntervalScale) {
       this.spawnObstacle();
       this.lastObstacleSpawn = currentTime;
     }
   }
   
   private handleObstacleCollision(obstacle: Obstacle): void {
+    // Obstacles pass straight through Bleda during the grace period after a hit
+    if (this.isInvulnerable()) return;
+    
     // Deactivate obstacle
     obstacle.deactivate();
     
+    // Take damage
+    const damage = HEALTH_CONFIG.DAMAGE[obstacle.type];
+    this.setHealth(this.health - damage);
+    this.invulnerableUntil = this.gameClock.now() + HEALTH_CONFIG.INVULNERABILITY_DURATION;
+    
     // Apply stun effect
+    const stunDuration = OBSTACLE_CONFIG.STUN_DURATION * this.difficultyConfig.STUN_DURATION_SCALE;
     this.isStunned = true;
-    this.stunnedUntil = Date.now() + OBSTACLE_CONFIG.STUN_DURATION;
+    this.stunnedUntil = this.gameClock.now() + stunDuration;
     
     // Apply score penalty
+    const previousScore = this.score;
     this.score = Math.max(0, this.score - OBSTACLE_CONFIG.SCORE_PENALTY);
-    this.uiManager.updateScore(this.score);
+    this.director.recordStun();
+    this.director.recordScore(this.score - previousScore);
+    this.events.emit('scoreChanged', { score: this.score, delta: this.score - previousScore });
+    
+    this.events.emit('obstacleHit', { type: obstacle.type, penalty: previousScore - this.score, damage });
+    this.events.emit('stunStart', { duration: stunDuration });
     
-    // Show collision message
-    this.uiManager.showObstacleCollision(OBSTACLE_MESSAGES.COLLISION[obstacle.type], obstacle.type);
+    this.shakeCamera();
     
-    // Visual stun effect
-    this.uiManager.showStunEffect();
+    if (this.health === 0) {
+      this.endRun('defeated');
+    }
+  }
+  
+  private isInvulnerable(): boolean {
+    return this.gameClock.now() < this.invulnerableUntil;
+  }
+  
+  private setHealth(health: number): void {
+    const previousHealth = this.health;
+    this.health = Math.max(0, Math.min(HEALTH_CONFIG.MAX_HEALTH, health));
+    this.events.emit('healthChanged', {
+      health: this.health,
+      maxHealth: HEALTH_CONFIG.MAX_HEALTH,
+      delta: this.health - previousHealth
+    });
+  }
+  
+  private shakeCamera(): void {
+    if (!this.renderer || this.seeking) return;
     
-    // Camera shake effect
-    const originalCameraPosition = this.camera.position.clone();
     let shakeTime = 0;
     const shakeAnimation = () => {
+      if (this.state === GameState.PAUSED) {
+        requestAnimationFrame(shakeAnimation);
+        return;
+      }
+      
       shakeTime += 16; // ~60fps
       if (shakeTime < 300) {
         const intensity = (1 - shakeTime / 300) * 0.5;
-        this.camera.position.x = originalCameraPosition.x + (Math.random() - 0.5) * intensity;
-        this.camera.position.y = originalCameraPosition.y + (Math.random() - 0.5) * intensity;
+        this.cameraShakeOffset.set((Math.random() - 0.5) * intensity, (Math.random() - 0.5) * intensity);
         requestAnimationFrame(shakeAnimation);
       } else {
-        this.camera.position.copy(originalCameraPosition);
+        this.cameraShakeOffset.set(0, 0);
       }
     };
     shakeAnimation();
   }
   
   private updateCombo(): void {
-    const currentTime = Date.now();
+    const currentTime = this.gameClock.now();
     
     if (currentTime - this.lastHitTime <= TARGET_CONFIG.COMBO_TIME_WINDOW) {
       this.comboCount++;
@@ -1241,40 +2703,30 @@ export class Game {
         1 + this.comboCount * TARGET_CONFIG.COMBO_MULTIPLIER_INCREMENT,
         TARGET_CONFIG.MAX_COMBO_MULTIPLIER
       );
-      
-      // Show combo message
-      if (this.comboCount > 1 && this.comboCount <= TARGET_MESSAGES.COMBO.length) {
-        this.uiManager.showComboMessage(
-          TARGET_MESSAGES.COMBO[this.comboCount - 2],
-          this.comboCount
-        );
-      }
     } else {
       this.comboCount = 1;
       this.comboMultiplier = 1;
     }
     
     this.lastHitTime = currentTime;
-    this.uiManager.updateComboDisplay(this.comboCount, this.comboMultiplier);
+    this.events.emit('comboChanged', { count: this.comboCount, multiplier: this.comboMultiplier });
   }
   
   private handleSpecialTargetEffect(special: any, target: Target): void {
     switch (special.type) {
       case 'explosive':
-        this.createExplosionEffect(target.mesh.position.clone());
+        // Targets on different wheels only compare in world space
+        const blastPosition = target.mesh.getWorldPosition(new THREE.Vector3());
+        this.createExplosionEffect(blastPosition.clone());
         
         // Check for chain explosions
         this.targets.forEach(otherTarget => {
           if (otherTarget !== target && otherTarget.isActive) {
-            const distance = target.mesh.position.distanceTo(otherTarget.mesh.position);
+            const distance = blastPosition.distanceTo(otherTarget.mesh.getWorldPosition(new THREE.Vector3()));
             if (distance < special.explosionRadius) {
               // Chain explosion
-              if (Math.random() < special.chainChance) {
-                const hitResult = otherTarget.onHit();
-                const scoreGain = Math.round(hitResult.points * this.scoreMultiplier * this.comboMultiplier);
-                this.score += scoreGain;
-                this.uiManager.updateScore(this.score);
-                this.createTargetHitEffect(otherTarget);
+              if (this.random.next() < special.chainChance) {
+                this.scoreChainedHit(otherTarget);
               }
             }
           }
@@ -1283,7 +2735,7 @@ export class Game {
         
       case 'mystery':
         const reward = special.reward;
-        this.uiManager.showMysteryReveal(reward.message);
+        this.events.emit('mysteryRevealed', { message: reward.message });
         
         if (reward.powerUp) {
           // Spawn random power-up
@@ -1296,7 +2748,49 @@ export class Game {
     }
   }
   
+  // Targets knocked out by anything but a landed shot: explosions, flames and a piercing arrow after its first. No combo or accuracy credit.
+  private scoreChainedHit(target: Target): { points: number, special?: any } {
+    const hitResult = target.onHit();
+    const wheelMultiplier = this.wheelMotor.getScoreMultiplier();
+    const scoreGain = Math.round(hitResult.points * this.scoreMultiplier * this.comboMultiplier * wheelMultiplier);
+    this.score += scoreGain;
+    this.director.recordScore(scoreGain);
+    this.events.emit('scoreChanged', { score: this.score, delta: scoreGain });
+    this.events.emit('targetHit', {
+      type: target.type,
+      basePoints: hitResult.points,
+      points: scoreGain,
+      scoreMultiplier: this.scoreMultiplier,
+      comboMultiplier: this.comboMultiplier,
+      wheelMultiplier,
+      chained: true
+    });
+    this.createTargetHitEffect(target);
+    if (!target.isActive) {
+      this.targetsCleared++;
+    }
+    return hitResult;
+  }
+  
+  // Fire spreads through a split family: a piece that burns out splits into pieces that are already alight
+  private updateBurningTargets(): void {
+    const burntOut = this.targets.filter(target => target.burntOut);
+    burntOut.forEach(target => {
+      const hitResult = this.scoreChainedHit(target);
+      if (hitResult.special?.type === 'split') {
+        hitResult.special.angles.forEach((angle: number) => {
+          const piece = this.createTarget(TargetType.SPLIT, angle, hitResult.special.splitLevel, target.wheelIndex);
+          piece.ignite(this.gameClock.now() + ARROW_CONFIG.FIRE.BURN_TIME);
+          this.addTarget(piece);
+        });
+      }
+    });
+  }
+  
   private createTargetHitEffect(target: Target): void {
+    // Skipped while seeking a replay, which would fire hundreds of them at once
+    if (!this.renderer || this.seeking) return;
+    
     const worldPos = new THREE.Vector3();
     target.mesh.getWorldPosition(worldPos);
     
@@ -1340,6 +2834,12 @@ export class Game {
     // Animate particles
     let opacity = 1;
     const animateParticles = () => {
+      // Hold the effect mid-air while paused
+      if (this.state === GameState.PAUSED) {
+        requestAnimationFrame(animateParticles);
+        return;
+      }
+      
       opacity -= 0.02;
       material.opacity = opacity;
       
@@ -1363,6 +2863,107 @@ export class Game {
     animateParticles();
   }
   
+  // Wood chips where an arrow thunks into the wheel, sparks where one glances off armor
+  private createWheelImpactEffect(position: THREE.Vector3, armored: boolean): void {
+    if (!this.renderer || this.seeking) return;
+    
+    const particleCount = 10;
+    const geometry = new THREE.BufferGeometry();
+    const positions = new Float32Array(particleCount * 3);
+    const velocities: THREE.Vector3[] = [];
+    for (let i = 0; i < particleCount; i++) {
+      positions.set(position.toArray(), i * 3);
+      velocities.push(new THREE.Vector3(Math.random() - 0.5, Math.random(), Math.random() * 0.5).multiplyScalar(armored ? 8 : 4));
+    }
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    
+    const material = new THREE.PointsMaterial({
+      color: armored ? 0xffee88 : COLORS.ARROW_SHAFT,
+      size: armored ? 0.15 : 0.2,
+      transparent: true,
+      opacity: 1,
+      blending: armored ? THREE.AdditiveBlending : THREE.NormalBlending
+    });
+    const particles = new THREE.Points(geometry, material);
+    this.scene.add(particles);
+    
+    let opacity = 1;
+    const animateParticles = () => {
+      // Hold the effect mid-air while paused
+      if (this.state === GameState.PAUSED) {
+        requestAnimationFrame(animateParticles);
+        return;
+      }
+      
+      const deltaTime = 1 / 60;
+      opacity -= 0.04;
+      material.opacity = opacity;
+      velocities.forEach((velocity, i) => {
+        velocity.y -= GAME_CONFIG.GRAVITY * deltaTime;
+        positions[i * 3] += velocity.x * deltaTime;
+        positions[i * 3 + 1] += velocity.y * deltaTime;
+        positions[i * 3 + 2] += velocity.z * deltaTime;
+      });
+      geometry.attributes.position.needsUpdate = true;
+      
+      if (opacity > 0) {
+        requestAnimationFrame(animateParticles);
+      } else {
+        this.scene.remove(particles);
+        geometry.dispose();
+        material.dispose();
+      }
+    };
+    
+    animateParticles();
+  }
+  
+  // Sends a target flying off the failing wheel; it's already out of play, this is only for show
+  private createFlungTargetEffect(target: Target): void {
+    if (!this.renderer || this.seeking) {
+      target.mesh.removeFromParent();
+      target.dispose();
+      return;
+    }
+    
+    // Off the wheel and into the scene, keeping its spot on the rim
+    const wheel = this.wheels[target.wheelIndex];
+    target.mesh.updateWorldMatrix(true, false);
+    this.scene.attach(target.mesh);
+    const position = target.mesh.position.clone();
+    
+    // Outwards from the hub and along the rim's direction of travel
+    const outward = position.clone().sub(wheel.root.position).setZ(0).normalize();
+    const velocity = new THREE.Vector3(-outward.y, outward.x, 0)
+      .multiplyScalar(wheel.direction)
+      .add(outward)
+      .normalize()
+      .multiplyScalar(WHEEL_CONFIG.FLING_SPEED);
+    
+    let elapsed = 0;
+    const animateFling = () => {
+      if (this.state === GameState.PAUSED) {
+        requestAnimationFrame(animateFling);
+        return;
+      }
+      
+      const deltaTime = 1 / 60;
+      elapsed += deltaTime * 1000;
+      velocity.y -= GAME_CONFIG.GRAVITY * deltaTime;
+      target.mesh.position.addScaledVector(velocity, deltaTime);
+      target.mesh.rotation.z += 10 * deltaTime;
+      
+      if (elapsed < WHEEL_CONFIG.FLING_DURATION) {
+        requestAnimationFrame(animateFling);
+      } else {
+        this.scene.remove(target.mesh);
+        target.dispose();
+      }
+    };
+    
+    animateFling();
+  }
+  
   private getTargetConfig(type: TargetType): any {
     switch (type) {
       case TargetType.STANDARD: return TARGET_CONFIG.STANDARD;
@@ -1380,18 +2981,25 @@ export class Game {
   }
   
   private spawnTarget(): void {
-    if (this.targets.length >= TARGET_CONFIG.MAX_TARGETS_ON_WHEEL) {
-      return;
-    }
+    // A failing wheel gets nothing new to hold until it has braked
+    if (this.wheelMotor.isFailing) return;
+    
+    // The cap is per wheel; one of the wheels with room is picked at random.
+    // With a single wheel nothing is drawn, so classic runs keep their random sequence.
+    const openWheels = this.wheels.map((_, index) => index).filter(index =>
+      this.targets.filter(t => t.wheelIndex === index).length < TARGET_CONFIG.MAX_TARGETS_ON_WHEEL
+    );
+    if (openWheels.length === 0) return;
+    const wheelIndex = openWheels.length === 1 ? openWheels[0] : this.random.pick(openWheels);
     
     // Get available spawn positions
-    const occupiedAngles = this.targets.map(t => t.wheelAngle);
+    const occupiedAngles = this.targets.filter(t => t.wheelIndex === wheelIndex).map(t => t.wheelAngle);
     const minAngleDistance = Math.PI / 4; // Minimum 45 degrees between targets
     
     // Find valid spawn angle
     let validAngle: number | null = null;
     for (let attempt = 0; attempt < 10; attempt++) {
-      const testAngle = Math.random() * Math.PI * 2;
+      const testAngle = this.random.range(0, Math.PI * 2);
       let isValid = true;
       
       for (const occupiedAngle of occupiedAngles) {
@@ -1410,7 +3018,8 @@ export class Game {
     
     if (validAngle === null) return;
     
-    // Choose target type based on spawn chances
+    // Choose target type based on spawn chances, scaled by difficulty and the director
+    const specialScale = this.difficultyConfig.SPECIAL_TARGET_SCALE * this.director.specialTargetScale;
     const targetTypes = [
       { type: TargetType.GOLD, chance: TARGET_CONFIG.GOLD.SPAWN_CHANCE },
       { type: TargetType.SPEED, chance: TARGET_CONFIG.SPEED.SPAWN_CHANCE },
@@ -1423,12 +3032,12 @@ export class Game {
       { type: TargetType.EXPLOSIVE, chance: TARGET_CONFIG.EXPLOSIVE.SPAWN_CHANCE }
     ];
     
-    const random = Math.random();
+    const random = this.random.next();
     let cumulativeChance = 0;
     let selectedType: TargetType | null = null;
     
     for (const targetType of targetTypes) {
-      cumulativeChance += targetType.chance;
+      cumulativeChance += targetType.chance * specialScale;
       if (random <= cumulativeChance) {
         selectedType = targetType.type;
         break;
@@ -1438,93 +3047,126 @@ export class Game {
     if (!selectedType) return;
     
     // Create target
-    let newTarget: Target | null = null;
-    const radius = GAME_CONFIG.WHEEL_RADIUS - 0.5;
+    this.addTarget(this.createTarget(selectedType, validAngle, 0, wheelIndex));
+    
+    this.events.emit('targetSpawned', { type: selectedType });
+  }
+  
+  // Scripted targets go exactly where the level puts them and aren't held to the random spawn cap
+  private placeTarget(type: TargetType, angle: number, wheelIndex: number): void {
+    if (this.wheelMotor.isFailing) return;
+    
+    this.addTarget(this.createTarget(type, angle, 0, wheelIndex));
+    this.events.emit('targetSpawned', { type });
+  }
+  
+  private createTarget(type: TargetType, angle: number, splitCount: number = 0, wheelIndex: number = 0): Target {
+    const target = this.buildTarget(type, angle, splitCount, this.wheels[wheelIndex].targetRadius);
+    target.wheelIndex = wheelIndex;
+    target.scaleLifetime(this.difficultyConfig.TARGET_LIFETIME_SCALE);
+    return target;
+  }
+  
+  private buildTarget(type: TargetType, angle: number, splitCount: number, radius: number): Target {
     
-    switch (selectedType) {
+    switch (type) {
+      case TargetType.STANDARD:
+        return new StandardTarget(this.gameClock, this.random, radius, angle);
       case TargetType.GOLD:
-        newTarget = new GoldTarget(radius, validAngle);
-        break;
+        return new GoldTarget(this.gameClock, this.random, radius, angle);
       case TargetType.SPEED:
-        newTarget = new SpeedTarget(radius, validAngle);
-        break;
+        return new SpeedTarget(this.gameClock, this.random, radius, angle);
       case TargetType.BONUS:
-        newTarget = new BonusTarget(radius, validAngle);
-        break;
+        return new BonusTarget(this.gameClock, this.random, radius, angle);
       case TargetType.SHRINKING:
-        newTarget = new ShrinkingTarget(radius, validAngle);
-        break;
+        return new ShrinkingTarget(this.gameClock, this.random, radius, angle);
       case TargetType.SPLIT:
-        newTarget = new SplitTarget(radius, validAngle);
-        break;
+        return new SplitTarget(this.gameClock, this.random, radius, angle, splitCount);
       case TargetType.MYSTERY:
-        newTarget = new MysteryTarget(radius, validAngle);
-        break;
+        return new MysteryTarget(this.gameClock, this.random, radius, angle);
       case TargetType.GHOST:
-        newTarget = new GhostTarget(radius, validAngle);
-        break;
+        return new GhostTarget(this.gameClock, this.random, radius, angle);
       case TargetType.MAGNETIC:
-        newTarget = new MagneticTarget(radius, validAngle);
-        break;
+        return new MagneticTarget(this.gameClock, this.random, radius, angle);
       case TargetType.EXPLOSIVE:
-        newTarget = new ExplosiveTarget(radius, validAngle);
-        break;
+        return new ExplosiveTarget(this.gameClock, this.random, radius, angle);
     }
+  }
+  
+  // Obstacles rebuilt from a save; the snapshot overwrites whatever the constructors picked
+  private createObstacle(snapshot: ObstacleSnapshot): Obstacle {
+    const position = new THREE.Vector3().fromArray(snapshot.position);
+    const velocity = new THREE.Vector3().fromArray(snapshot.velocity);
     
-    if (newTarget) {
-      this.targets.push(newTarget);
-      this.wheel.add(newTarget.mesh);
-      
-      // Show spawn message for special targets
-      if (selectedType in TARGET_MESSAGES.SPAWN) {
-        this.uiManager.showTargetSpawn(TARGET_MESSAGES.SPAWN[selectedType as keyof typeof TARGET_MESSAGES.SPAWN], selectedType);
-      }
+    switch (snapshot.type) {
+      case ObstacleType.FLYING_ROCK:
+        return new FlyingRock(this.random, position, velocity);
+      case ObstacleType.TREE:
+        return new Tree(this.random, position);
+      case ObstacleType.BIRD:
+        return new Bird(this.random, position, velocity);
     }
   }
   
   private spawnSpecialTargets(count: number): void {
     for (let i = 0; i < count; i++) {
-      setTimeout(() => {
-        this.spawnTarget();
-      }, i * 500); // Stagger spawns
+      this.scheduleTargetSpawn(i * 500); // Stagger spawns
     }
   }
   
+  // Pending spawns are kept as plain times too, so a save can bring them back
+  private scheduleTargetSpawn(delayMs: number): void {
+    const at = this.gameClock.now() + delayMs;
+    this.pendingTargetSpawns.push(at);
+    this.gameClock.schedule(delayMs, () => {
+      this.pendingTargetSpawns.splice(this.pendingTargetSpawns.indexOf(at), 1);
+      this.spawnTarget();
+    });
+  }
+  
   private updateTargets(deltaTime: number, elapsedTime: number): void {
-    const currentTime = Date.now();
+    const currentTime = this.gameClock.now();
     
     // Update all targets
     this.targets.forEach(target => {
       if (target.isActive) {
-        target.update(deltaTime, this.wheel.rotation.z, elapsedTime);
+        target.update(deltaTime, this.wheels[target.wheelIndex], elapsedTime);
       }
     });
     
+    this.updateBurningTargets();
+    
     // Remove inactive targets
     this.targets = this.targets.filter(target => {
       if (!target.isActive) {
-        this.wheel.remove(target.mesh);
+        if (target.expired) {
+          this.events.emit('targetExpired', { type: target.type });
+        }
+        target.mesh.removeFromParent();
         target.dispose();
         return false;
       }
       return true;
     });
     
+    // Scripted levels without random targets only get what their script places
+    if (this.level && !this.level.randomSpawns.targets) return;
+    
     // Check if we need to spawn new targets
-    if (currentTime - this.lastTargetCheck >= TARGET_CONFIG.SPAWN_CHECK_INTERVAL) {
+    if (currentTime - this.lastTargetCheck >= this.spawnIntervals.target) {
       this.spawnTarget();
       this.lastTargetCheck = currentTime;
     }
     
     // Ensure at least one standard target exists
-    if (this.targets.length === 0) {
-      const standardTarget = new StandardTarget(GAME_CONFIG.WHEEL_RADIUS - 0.5, 0);
-      this.targets.push(standardTarget);
-      this.wheel.add(standardTarget.mesh);
+    if (this.targets.length === 0 && !this.wheelMotor.isFailing) {
+      this.spawnStandardTarget();
     }
   }
   
   private createExplosionEffect(position: THREE.Vector3): void {
+    if (!this.renderer || this.seeking) return;
+    
     // Create explosion particles
     const particleCount = 20;
     const geometry = new THREE.BufferGeometry();
@@ -1564,6 +3206,11 @@ export class Game {
     // Animate and remove particles
     let opacity = 1;
     const animateExplosion = () => {
+      if (this.state === GameState.PAUSED) {
+        requestAnimationFrame(animateExplosion);
+        return;
+      }
+      
       opacity -= 0.05;
       material.opacity = opacity;
       
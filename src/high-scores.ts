@@ -0,0 +1,60 @@
+import { Difficulty, GameMode } from './constants';
+
+export interface HighScoreEntry {
+  score: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  seed: number;
+  date: string; // ISO timestamp
+}
+
+// Entries kept per mode and difficulty
+const ENTRIES_PER_TABLE = 10;
+
+// Best scores, kept in browser storage. Each entry carries its difficulty, so
+// scores are only ranked against runs played on the same preset.
+export class HighScoreTable {
+  private storage: Storage;
+  private storageKey: string;
+  private entries: HighScoreEntry[];
+
+  constructor(storage: Storage, storageKey: string = 'bleda-high-scores') {
+    this.storage = storage;
+    this.storageKey = storageKey;
+    this.entries = this.load();
+  }
+
+  public getBest(mode: GameMode, difficulty: Difficulty): HighScoreEntry | null {
+    return this.getEntries(mode, difficulty)[0] ?? null;
+  }
+
+  public getEntries(mode: GameMode, difficulty: Difficulty): HighScoreEntry[] {
+    return this.entries.filter(entry => entry.mode === mode && entry.difficulty === difficulty);
+  }
+
+  // Returns true when the entry beats the previous best for its mode and difficulty
+  public submit(entry: HighScoreEntry): boolean {
+    const previousBest = this.getBest(entry.mode, entry.difficulty);
+
+    const table = [...this.getEntries(entry.mode, entry.difficulty), entry]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, ENTRIES_PER_TABLE);
+    this.entries = [
+      ...this.entries.filter(other => other.mode !== entry.mode || other.difficulty !== entry.difficulty),
+      ...table
+    ];
+    this.storage.setItem(this.storageKey, JSON.stringify(this.entries));
+
+    return entry.score > 0 && (previousBest === null || entry.score > previousBest.score);
+  }
+
+  // A corrupt or foreign value just starts a fresh table
+  private load(): HighScoreEntry[] {
+    try {
+      const entries = JSON.parse(this.storage.getItem(this.storageKey) ?? '[]');
+      return Array.isArray(entries) ? entries : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { ArrowType } from './constants';
+
+// Everything the player can do in one simulation step
+export interface InputFrame {
+  left: boolean;
+  right: boolean;
+  // Aim point on the wheel plane, in world units
+  aimX: number;
+  aimY: number;
+  draw: boolean; // Held to draw the bow; letting go shoots
+  shoot: boolean; // A shot at full draw without the hold, for scripts and bots
+  arrow: ArrowType; // The arrow type picked from the quiver
+  reload: boolean; // Refill the quiver from the spares, with limited ammo
+}
+
+// Where the game reads input from each step: the live player or a recording
+export interface InputSource {
+  poll(step: number): InputFrame;
+}
+
+// Aim is stored at this precision so recordings stay small and replay the exact same values
+const AIM_PRECISION = 10000;
+
+// Collects input from the browser (or the headless API) between simulation steps
+export class LiveInputSource implements InputSource {
+  private frame: InputFrame = { left: false, right: false, aimX: 0, aimY: 0, draw: false, shoot: false, arrow: ArrowType.BROADHEAD, reload: false };
+  // A press and release between two steps still has to reach the game as a (short) draw
+  private drawPressed = false;
+
+  public get left(): boolean {
+    return this.frame.left;
+  }
+
+  public get right(): boolean {
+    return this.frame.right;
+  }
+
+  public get arrow(): ArrowType {
+    return this.frame.arrow;
+  }
+
+  public setMovement(left: boolean, right: boolean): void {
+    this.frame.left = left;
+    this.frame.right = right;
+  }
+
+  public setAim(x: number, y: number): void {
+    this.frame.aimX = Math.round(x * AIM_PRECISION) / AIM_PRECISION;
+    this.frame.aimY = Math.round(y * AIM_PRECISION) / AIM_PRECISION;
+  }
+
+  public setDrawing(held: boolean): void {
+    this.frame.draw = held;
+    this.drawPressed ||= held;
+  }
+
+  public setArrowType(type: ArrowType): void {
+    this.frame.arrow = type;
+  }
+
+  public requestShot(): void {
+    this.frame.shoot = true;
+  }
+
+  public requestReload(): void {
+    this.frame.reload = true;
+  }
+
+  // Drops a queued shot, tap or reload that hasn't reached the game yet
+  public cancelShot(): void {
+    this.frame.shoot = false;
+    this.frame.reload = false;
+    this.drawPressed = false;
+  }
+
+  // A queued shot or reload is taken once, on the next step
+  public poll(): InputFrame {
+    const frame = { ...this.frame, draw: this.frame.draw || this.drawPressed };
+    this.frame.shoot = false;
+    this.frame.reload = false;
+    this.drawPressed = false;
+    return frame;
+  }
+}
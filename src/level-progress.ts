@@ -0,0 +1,58 @@
+import { LEVELS, LevelDefinition } from './levels';
+
+export interface LevelRecord {
+  stars: number;
+  bestScore: number;
+}
+
+// Best result per level, kept in browser storage. Stars add up across levels to unlock later ones.
+export class LevelProgress {
+  private storage: Storage;
+  private storageKey: string;
+  private records: Record<string, LevelRecord>;
+
+  constructor(storage: Storage, storageKey: string = 'bleda-level-progress') {
+    this.storage = storage;
+    this.storageKey = storageKey;
+    this.records = this.load();
+  }
+
+  public getRecord(levelId: string): LevelRecord | null {
+    return this.records[levelId] ?? null;
+  }
+
+  public getTotalStars(): number {
+    return Object.values(this.records).reduce((total, record) => total + record.stars, 0);
+  }
+
+  public isUnlocked(level: LevelDefinition): boolean {
+    return this.getTotalStars() >= level.unlockStars;
+  }
+
+  public getUnlockedLevelIds(): string[] {
+    return LEVELS.filter(level => this.isUnlocked(level)).map(level => level.id);
+  }
+
+  // Keeps the best stars and best score separately; returns true when either improved
+  public submit(levelId: string, stars: number, score: number): boolean {
+    const previous = this.getRecord(levelId);
+    if (previous && stars <= previous.stars && score <= previous.bestScore) return false;
+
+    this.records[levelId] = {
+      stars: Math.max(stars, previous?.stars ?? 0),
+      bestScore: Math.max(score, previous?.bestScore ?? 0)
+    };
+    this.storage.setItem(this.storageKey, JSON.stringify(this.records));
+    return true;
+  }
+
+  // A corrupt or foreign value just starts fresh progress
+  private load(): Record<string, LevelRecord> {
+    try {
+      const records = JSON.parse(this.storage.getItem(this.storageKey) ?? '{}');
+      return typeof records === 'object' && records !== null && !Array.isArray(records) ? records : {};
+    } catch {
+      return {};
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { ObstacleType, PowerUpType, TargetType } from './constants';
+import { WheelLayout } from './wheel';
+
+// One scripted spawn, `at` seconds after the level starts
+export type WaveEntry =
+  | { at: number; target: TargetType; angle: number; wheel?: number } // Degrees round the wheel, on the first wheel by default
+  | { at: number; obstacle: ObstacleType }
+  | { at: number; powerUp: PowerUpType };
+
+// Checked when the level ends; a level without score or target goals is about surviving the clock
+export interface LevelGoals {
+  timeLimit: number; // Seconds
+  score?: number;
+  targetsCleared?: number;
+}
+
+export interface LevelDefinition {
+  id: string;
+  name: string;
+  description: string;
+  unlockStars: number; // Stars needed across all levels before this one can be played
+  wheelStartRpm: number;
+  wheels?: WheelLayout[]; // The classic single wheel when left out
+  environment?: string; // Id from environments.ts; the player's own pick when left out
+  wind?: number; // Scales the wind on top of the difficulty, 0 for still air; 1 when left out
+  waves: WaveEntry[]; // In time order
+  // Random spawning on top of the script, like in the endless modes
+  randomSpawns: { targets: boolean; obstacles: boolean; powerUps: boolean };
+  goals: LevelGoals;
+  starScores: [number, number]; // Scores for the second and third star, completing earns the first
+}
+
+// Evenly spaced targets right round a wheel
+function ring(at: number, target: TargetType, count: number, offset = 0, wheel = 0): WaveEntry[] {
+  return Array.from({ length: count }, (_, i) => ({ at, target, angle: offset + (i * 360) / count, wheel }));
+}
+
+function inOrder(waves: WaveEntry[]): WaveEntry[] {
+  return waves.sort((a, b) => a.at - b.at);
+}
+
+export const LEVELS: readonly LevelDefinition[] = [
+  {
+    id: 'warm-up',
+    name: 'W4RM-UP',
+    description: 'Rings of standard targets on a slow wheel',
+    unlockStars: 0,
+    wheelStartRpm: 4,
+    environment: 'steppe',
+    wind: 0,
+    waves: inOrder([
+      ...ring(0, TargetType.STANDARD, 2),
+      ...ring(8, TargetType.STANDARD, 3, 60),
+      ...ring(16, TargetType.STANDARD, 4, 45),
+      { at: 20, powerUp: PowerUpType.RAPID_FIRE },
+      ...ring(26, TargetType.STANDARD, 4),
+      ...ring(36, TargetType.STANDARD, 6, 30)
+    ]),
+    randomSpawns: { targets: false, obstacles: false, powerUps: false },
+    goals: { timeLimit: 60, targetsCleared: 10 },
+    starScores: [150, 250]
+  },
+  {
+    id: 'gold-rush',
+    name: 'G0LD RUSH',
+    description: 'Gold and speed targets that don\'t wait around',
+    unlockStars: 1,
+    wheelStartRpm: 6,
+    environment: 'desert',
+    wind: 0.5,
+    waves: inOrder([
+      ...ring(0, TargetType.GOLD, 2),
+      ...ring(6, TargetType.SPEED, 3),
+      ...ring(14, TargetType.GOLD, 3, 60),
+      { at: 15, powerUp: PowerUpType.SCORE_MULTIPLIER },
+      ...ring(22, TargetType.SPEED, 4, 45),
+      ...ring(30, TargetType.GOLD, 4),
+      ...ring(40, TargetType.BONUS, 3, 30)
+    ]),
+    randomSpawns: { targets: false, obstacles: false, powerUps: false },
+    goals: { timeLimit: 60, score: 300 },
+    starScores: [500, 800]
+  },
+  {
+    id: 'rock-garden',
+    name: 'R0CK G4RD3N',
+    description: 'Survive a minute of rocks, trees and birds',
+    unlockStars: 3,
+    wheelStartRpm: 5,
+    environment: 'tundra',
+    waves: inOrder([
+      ...ring(0, TargetType.STANDARD, 3),
+      { at: 4, obstacle: ObstacleType.FLYING_ROCK },
+      { at: 8, obstacle: ObstacleType.TREE },
+      { at: 12, obstacle: ObstacleType.FLYING_ROCK },
+      { at: 16, obstacle: ObstacleType.BIRD },
+      { at: 20, obstacle: ObstacleType.FLYING_ROCK },
+      { at: 22, obstacle: ObstacleType.TREE },
+      { at: 25, powerUp: PowerUpType.HEALTH },
+      { at: 28, obstacle: ObstacleType.BIRD },
+      { at: 32, obstacle: ObstacleType.FLYING_ROCK },
+      { at: 35, obstacle: ObstacleType.FLYING_ROCK },
+      { at: 40, obstacle: ObstacleType.BIRD },
+      { at: 44, obstacle: ObstacleType.TREE },
+      { at: 48, obstacle: ObstacleType.FLYING_ROCK },
+      { at: 52, obstacle: ObstacleType.BIRD },
+      { at: 55, obstacle: ObstacleType.FLYING_ROCK }
+    ]),
+    randomSpawns: { targets: true, obstacles: false, powerUps: false },
+    goals: { timeLimit: 60 },
+    starScores: [200, 400]
+  },
+  {
+    id: 'haunted-wheel',
+    name: 'H4UNT3D WH33L',
+    description: 'Ghosts, magnets and shrinking targets on a fast wheel',
+    unlockStars: 5,
+    wheelStartRpm: 10,
+    environment: 'night-festival',
+    waves: inOrder([
+      ...ring(0, TargetType.GHOST, 2),
+      ...ring(5, TargetType.SHRINKING, 3, 60),
+      ...ring(12, TargetType.MAGNETIC, 2, 90),
+      { at: 15, powerUp: PowerUpType.EXPLOSIVE_ARROWS },
+      ...ring(20, TargetType.SPLIT, 3),
+      ...ring(30, TargetType.GHOST, 4, 45),
+      ...ring(40, TargetType.SHRINKING, 4),
+      { at: 45, powerUp: PowerUpType.RAPID_FIRE },
+      ...ring(50, TargetType.MAGNETIC, 3, 30),
+      ...ring(60, TargetType.GHOST, 6)
+    ]),
+    randomSpawns: { targets: false, obstacles: true, powerUps: false },
+    goals: { timeLimit: 75, targetsCleared: 15 },
+    starScores: [400, 700]
+  },
+  {
+    id: 'twin-wheels',
+    name: 'TW1N WH33LS',
+    description: 'Two wheels turning against each other, and a fast armored inner ring',
+    unlockStars: 6,
+    wheelStartRpm: 6,
+    environment: 'desert',
+    wheels: [
+      { radius: 5, position: [-7, 7, -15], spokes: 3, speed: 1 },
+      { radius: 5, position: [7, 7, -15], spokes: 3, speed: -1 },
+      { radius: 2.5, position: [7, 7, -14.5], spokes: 2, speed: 2.5, armoredSpokes: [0, 1] }
+    ],
+    waves: inOrder([
+      ...ring(0, TargetType.STANDARD, 3, 0, 0),
+      ...ring(0, TargetType.STANDARD, 3, 60, 1),
+      ...ring(8, TargetType.GOLD, 2, 90, 2),
+      ...ring(15, TargetType.SPEED, 3, 0, 0),
+      ...ring(15, TargetType.SPEED, 3, 0, 1),
+      { at: 20, powerUp: PowerUpType.RAPID_FIRE },
+      ...ring(28, TargetType.BONUS, 2, 0, 2),
+      ...ring(35, TargetType.GOLD, 4, 45, 0),
+      ...ring(35, TargetType.GOLD, 4, 45, 1),
+      ...ring(48, TargetType.SPLIT, 2, 0, 0),
+      ...ring(48, TargetType.SPLIT, 2, 90, 1)
+    ]),
+    randomSpawns: { targets: false, obstacles: false, powerUps: false },
+    goals: { timeLimit: 70, targetsCleared: 20 },
+    starScores: [450, 700]
+  },
+  {
+    id: 'drifters',
+    name: 'DR1FT3RS',
+    description: 'A leaning oval wheel, and a small one that wanders across the field',
+    unlockStars: 7,
+    wheelStartRpm: 5,
+    environment: 'tundra',
+    wind: 1.5,
+    wheels: [
+      { radius: 9, position: [0, 10, -22], spokes: 4, speed: 1, tilt: 0.5, ellipse: 0.6 },
+      { radius: 3, position: [0, 5, -12], spokes: 2, speed: -2, drift: { offset: [10, 0, 0], period: 8 } }
+    ],
+    waves: inOrder([
+      ...ring(0, TargetType.STANDARD, 4, 0, 0),
+      ...ring(0, TargetType.STANDARD, 2, 0, 1),
+      ...ring(10, TargetType.GOLD, 3, 30, 0),
+      ...ring(14, TargetType.SPEED, 2, 90, 1),
+      { at: 18, obstacle: ObstacleType.BIRD },
+      ...ring(25, TargetType.GHOST, 4, 45, 0),
+      { at: 30, powerUp: PowerUpType.SCORE_MULTIPLIER },
+      ...ring(32, TargetType.GOLD, 2, 0, 1),
+      ...ring(40, TargetType.MAGNETIC, 3, 0, 0),
+      ...ring(50, TargetType.BONUS, 2, 90, 1)
+    ]),
+    randomSpawns: { targets: false, obstacles: true, powerUps: false },
+    goals: { timeLimit: 70, score: 500 },
+    starScores: [800, 1100]
+  },
+  {
+    id: 'redline',
+    name: 'R3DL1N3',
+    description: 'Starts in the danger zone with everything switched on',
+    unlockStars: 8,
+    wheelStartRpm: 28,
+    environment: 'night-festival',
+    wind: 1.3,
+    waves: inOrder([
+      ...ring(0, TargetType.EXPLOSIVE, 3),
+      ...ring(10, TargetType.MYSTERY, 2, 90),
+      { at: 20, powerUp: PowerUpType.SCORE_MULTIPLIER },
+      ...ring(30, TargetType.GOLD, 4, 45),
+      ...ring(45, TargetType.EXPLOSIVE, 4),
+      { at: 60, powerUp: PowerUpType.SCORE_MULTIPLIER },
+      ...ring(70, TargetType.GOLD, 6, 30)
+    ]),
+    randomSpawns: { targets: true, obstacles: true, powerUps: true },
+    goals: { timeLimit: 90, score: 800 },
+    starScores: [1200, 1800]
+  }
+];
+
+export function getLevel(id: string): LevelDefinition | undefined {
+  return LEVELS.find(level => level.id === id);
+}
+
+// Completing the level earns the first star, its score thresholds the other two
+export function getStarRating(level: LevelDefinition, score: number): number {
+  return 1 + level.starScores.filter(threshold => score >= threshold).length;
+}
@@ -1,7 +1,24 @@
 import { Game } from './game';
+import { Difficulty, GameMode, GameState } from './constants';
+import { applyConfigOverrides } from './config-loader';
+import { InputRecording, parseRecording } from './replay';
+import { SeededRandom } from './seeded-random';
+import { GameSnapshot, parseSnapshot } from './snapshot';
+import { HighScoreTable } from './high-scores';
+import { LevelProgress } from './level-progress';
+import { getLevel } from './levels';
+import { UIManager } from './ui-manager';
+
+// Browser storage slots for the resumable save and the player's last title screen choices
+const SAVE_STORAGE_KEY = 'bleda-save';
+const DIFFICULTY_STORAGE_KEY = 'bleda-difficulty';
+const ENVIRONMENT_STORAGE_KEY = 'bleda-environment';
+const DAY_NIGHT_STORAGE_KEY = 'bleda-day-night';
+const AIM_GUIDE_STORAGE_KEY = 'bleda-aim-guide';
+const LIMITED_AMMO_STORAGE_KEY = 'bleda-limited-ammo';
 
 // Wait for DOM to be ready
-document.addEventListener('DOMContentLoaded', () => {
+document.addEventListener('DOMContentLoaded', async () => {
     // Get the game container element
     const container = document.getElementById('game-container');
     const loadingElement = document.getElementById('loading');
@@ -11,18 +28,194 @@ document.addEventListener('DOMContentLoaded', () => {
         return;
     }
     
+    const params = new URLSearchParams(window.location.search);
+    
+    // ?config= overrides tuning for balance testing: a URL to a JSON file, or the JSON itself.
+    // A bad config stops here with the list of problems rather than running on half of it.
+    const configParam = params.get('config');
+    if (configParam) {
+        try {
+            const json = configParam.trim().startsWith('{')
+                ? configParam
+                : await fetch(configParam).then(response => {
+                    if (!response.ok) {
+                        throw new Error(`Could not fetch config ${configParam} (HTTP ${response.status})`);
+                    }
+                    return response.text();
+                });
+            applyConfigOverrides(json);
+        } catch (error) {
+            console.error('Failed to load config:', error);
+            if (loadingElement) {
+                loadingElement.style.whiteSpace = 'pre-line';
+                loadingElement.textContent = (error as Error).message;
+            }
+            return;
+        }
+    }
+    
     try {
+        // Play every run from ?seed= when given so it can be reproduced exactly
+        const seedParam = params.get('seed');
+        const options = seedParam !== null ? { random: new SeededRandom(SeededRandom.parseSeed(seedParam)) } : {};
+        
         // Initialize the game
-        const game = new Game(container);
+        const game = new Game(options);
+        game.attachRenderer(container);
+        
+        const uiManager = new UIManager();
+        uiManager.subscribe(game.events);
+        
+        // Scores are ranked per mode and difficulty; replays only show the original run's score
+        const highScores = new HighScoreTable(localStorage);
+        game.events.on('runEnded', ({ mode }) => {
+            if (game.isReplaying() || mode === GameMode.LEVEL) return;
+            
+            const difficulty = game.getDifficulty();
+            const score = game.getStats().score;
+            const isNew = highScores.submit({ score, mode, difficulty, seed: game.getSeed(), date: new Date().toISOString() });
+            uiManager.showHighScore(highScores.getBest(mode, difficulty), isNew);
+        });
+        
+        // Levels are ranked by stars instead; earning stars can unlock the next ones
+        const levelProgress = new LevelProgress(localStorage);
+        game.setUnlockedLevels(levelProgress.getUnlockedLevelIds());
+        uiManager.setLevelProgress(levelProgress);
+        game.events.on('levelEnded', ({ levelId, completed, stars, score }) => {
+            if (game.isReplaying() || !completed) return;
+            
+            const unlockedBefore = levelProgress.getUnlockedLevelIds();
+            levelProgress.submit(levelId, stars, score);
+            const unlocked = levelProgress.getUnlockedLevelIds();
+            game.setUnlockedLevels(unlocked);
+            uiManager.setLevelProgress(levelProgress);
+            
+            const newlyUnlocked = unlocked.filter(id => !unlockedBefore.includes(id)).map(id => getLevel(id)!.name);
+            if (newlyUnlocked.length > 0) {
+                uiManager.showNotice(`|| UNL0CK3D: ${newlyUnlocked.join(', ')} ||`);
+            }
+        });
+        
+        // Players keep the difficulty they last picked
+        const savedDifficulty = localStorage.getItem(DIFFICULTY_STORAGE_KEY);
+        game.setDifficulty(Object.values(Difficulty).includes(savedDifficulty as Difficulty) ? savedDifficulty as Difficulty : Difficulty.NORMAL);
+        game.events.on('difficultyChanged', ({ difficulty }) => localStorage.setItem(DIFFICULTY_STORAGE_KEY, difficulty));
+        
+        // ...and the scenery; levels show their own, so store the pick rather than what's on screen
+        const savedEnvironment = localStorage.getItem(ENVIRONMENT_STORAGE_KEY);
+        if (savedEnvironment) {
+            game.setEnvironment(savedEnvironment);
+        }
+        game.events.on('environmentChanged', () => localStorage.setItem(ENVIRONMENT_STORAGE_KEY, game.getEnvironmentId()));
+        game.setDayNightCycle(localStorage.getItem(DAY_NIGHT_STORAGE_KEY) === 'on');
+        game.events.on('dayNightChanged', ({ enabled }) => localStorage.setItem(DAY_NIGHT_STORAGE_KEY, enabled ? 'on' : 'off'));
+        // The aim guide starts on for newcomers
+        game.setAimGuide(localStorage.getItem(AIM_GUIDE_STORAGE_KEY) !== 'off');
+        game.events.on('aimGuideChanged', ({ enabled }) => localStorage.setItem(AIM_GUIDE_STORAGE_KEY, enabled ? 'on' : 'off'));
+        game.setLimitedAmmo(localStorage.getItem(LIMITED_AMMO_STORAGE_KEY) === 'on');
+        game.events.on('limitedAmmoChanged', ({ enabled }) => localStorage.setItem(LIMITED_AMMO_STORAGE_KEY, enabled ? 'on' : 'off'));
         
         // Start the game animation loop
         game.animate();
         
-        // Hide loading message
+        // Hide loading message and leave the boot state
         if (loadingElement) {
             loadingElement.style.display = 'none';
         }
+        game.goToTitle();
+        
+        const playReplay = (json: string) => {
+            try {
+                game.playReplay(parseRecording(json));
+            } catch (error) {
+                console.error('Failed to load replay:', error);
+                alert(`Could not play replay: ${(error as Error).message}`);
+            }
+        };
+        
+        const loadSave = (json: string) => {
+            try {
+                game.loadSnapshot(parseSnapshot(json));
+            } catch (error) {
+                console.error('Failed to load save:', error);
+                alert(`Could not load save: ${(error as Error).message}`);
+            }
+        };
         
+        // ?replay=<url> plays a saved run straight away, ?snapshot=<url> drops into a saved game
+        const replayUrl = params.get('replay');
+        if (replayUrl) {
+            fetch(replayUrl)
+                .then(response => response.text())
+                .then(playReplay)
+                .catch(error => console.error('Failed to fetch replay:', error));
+        }
+        const snapshotUrl = params.get('snapshot');
+        if (snapshotUrl) {
+            fetch(snapshotUrl)
+                .then(response => response.text())
+                .then(loadSave)
+                .catch(error => console.error('Failed to fetch save:', error));
+        }
+        
+        // Dropping a replay or save file onto the page loads it too; only replays carry inputs
+        window.addEventListener('dragover', (e) => e.preventDefault());
+        window.addEventListener('drop', (e) => {
+            e.preventDefault();
+            e.dataTransfer?.files[0]?.text().then(json => {
+                if (json.includes('"inputs"')) {
+                    playReplay(json);
+                } else {
+                    loadSave(json);
+                }
+            });
+        });
+        
+        // S on the results screen saves the run's inputs for later review
+        window.addEventListener('keydown', (e) => {
+            if (e.key.toLowerCase() !== 's' || game.getState() !== GameState.GAME_OVER || game.isReplaying()) return;
+            
+            const recording = game.getRecording();
+            if (recording) {
+                downloadRecording(recording);
+            }
+        });
+        
+        // While paused, S keeps the game in the browser and D downloads it (for bug reports);
+        // L on the title screen picks the kept game back up
+        window.addEventListener('keydown', (e) => {
+            const key = e.key.toLowerCase();
+            
+            if ((key === 's' || key === 'd') && game.getState() === GameState.PAUSED) {
+                const snapshot = game.saveSnapshot();
+                if (!snapshot) return;
+                
+                if (key === 's') {
+                    localStorage.setItem(SAVE_STORAGE_KEY, JSON.stringify(snapshot));
+                    uiManager.showNotice('|| G4M3 S4V3D ||');
+                } else {
+                    downloadSnapshot(snapshot);
+                }
+            } else if (key === 'l' && game.getState() === GameState.TITLE) {
+                const saved = localStorage.getItem(SAVE_STORAGE_KEY);
+                if (saved) {
+                    loadSave(saved);
+                } else {
+                    uiManager.showNotice('|| N0 S4V3D G4M3 ||');
+                }
+            }
+        });
+        
+        // F3 (or ?debug) shows what the adaptive difficulty director is doing
+        if (params.has('debug')) {
+            uiManager.toggleDirectorOverlay();
+        }
+        window.addEventListener('keydown', (e) => {
+            if (e.key !== 'F3') return;
+            e.preventDefault();
+            uiManager.toggleDirectorOverlay();
+        });
+
         // Handle window resize
         window.addEventListener('resize', () => {
             game.handleResize();
@@ -39,4 +232,22 @@ document.addEventListener('DOMContentLoaded', () => {
             loadingElement.textContent = 'Failed to load game. Please refresh the page.';
         }
     }
-});
\ No newline at end of file
+});
+
+function downloadRecording(recording: InputRecording): void {
+    downloadJson(recording, `bleda-replay-${recording.seed}.json`);
+}
+
+function downloadSnapshot(snapshot: GameSnapshot): void {
+    downloadJson(snapshot, `bleda-save-${snapshot.seed}-${snapshot.stepCount}.json`);
+}
+
+function downloadJson(data: unknown, filename: string): void {
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    link.click();
+    // Revoking straight away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(link.href), 0);
+}
@@ -1,5 +1,17 @@
 import * as THREE from 'three';
 import { ObstacleType, OBSTACLE_CONFIG } from './constants';
+import { SeededRandom } from './seeded-random';
+
+// Serializable obstacle state for save games; `data` holds what only some obstacle types track
+export interface ObstacleSnapshot {
+  type: ObstacleType;
+  position: THREE.Vector3Tuple;
+  velocity: THREE.Vector3Tuple;
+  rotation: THREE.Vector3Tuple;
+  isActive: boolean;
+  stunTime: number;
+  data: Record<string, number>;
+}
 
 export abstract class Obstacle {
   public mesh: THREE.Group;
@@ -7,10 +19,14 @@ export abstract class Obstacle {
   public position: THREE.Vector3;
   public velocity: THREE.Vector3;
   public isActive: boolean = true;
+  // ms left frozen in the air by a whistling arrow
+  public stunTime = 0;
   protected collisionRadius: number;
+  protected random: SeededRandom;
   
-  constructor(type: ObstacleType, position: THREE.Vector3) {
+  constructor(type: ObstacleType, random: SeededRandom, position: THREE.Vector3) {
     this.type = type;
+    this.random = random;
     this.position = position.clone();
     this.velocity = new THREE.Vector3();
     this.collisionRadius = OBSTACLE_CONFIG.COLLISION_RADIUS;
@@ -27,6 +43,10 @@ export abstract class Obstacle {
     return distance < this.collisionRadius;
   }
   
+  public stun(duration: number): void {
+    this.stunTime = Math.max(this.stunTime, duration);
+  }
+  
   public deactivate(): void {
     this.isActive = false;
     this.mesh.visible = false;
@@ -46,16 +66,46 @@ export abstract class Obstacle {
   public getWarningDistance(playerPosition: THREE.Vector3): number {
     return this.mesh.position.distanceTo(playerPosition);
   }
+  
+  public toSnapshot(): ObstacleSnapshot {
+    return {
+      type: this.type,
+      position: this.mesh.position.toArray(),
+      velocity: this.velocity.toArray(),
+      rotation: [this.mesh.rotation.x, this.mesh.rotation.y, this.mesh.rotation.z],
+      isActive: this.isActive,
+      stunTime: this.stunTime,
+      data: this.getSnapshotData()
+    };
+  }
+  
+  public restoreSnapshot(snapshot: ObstacleSnapshot): void {
+    this.mesh.position.fromArray(snapshot.position);
+    this.velocity.fromArray(snapshot.velocity);
+    this.mesh.rotation.set(...snapshot.rotation);
+    this.stunTime = snapshot.stunTime;
+    if (!snapshot.isActive) {
+      this.deactivate();
+    }
+    this.restoreSnapshotData(snapshot.data);
+  }
+  
+  // Override in subclasses with state beyond the common fields
+  protected getSnapshotData(): Record<string, number> {
+    return {};
+  }
+  
+  protected restoreSnapshotData(_data: Record<string, number>): void {}
 }
 
 export class FlyingRock extends Obstacle {
   private rotationSpeed: THREE.Vector3;
   
-  constructor(position: THREE.Vector3, targetDirection: THREE.Vector3) {
-    super(ObstacleType.FLYING_ROCK, position);
+  constructor(random: SeededRandom, position: THREE.Vector3, targetDirection: THREE.Vector3) {
+    super(ObstacleType.FLYING_ROCK, random, position);
     
     // Set velocity towards target with some variance
-    const variance = (Math.random() - 0.5) * OBSTACLE_CONFIG.FLYING_ROCK.TRAJECTORY_VARIANCE;
+    const variance = (this.random.next() - 0.5) * OBSTACLE_CONFIG.FLYING_ROCK.TRAJECTORY_VARIANCE;
     this.velocity = targetDirection.clone()
       .normalize()
       .multiplyScalar(OBSTACLE_CONFIG.FLYING_ROCK.SPEED);
@@ -122,8 +172,8 @@ export class FlyingRock extends Obstacle {
 }
 
 export class Tree extends Obstacle {
-  constructor(position: THREE.Vector3) {
-    super(ObstacleType.TREE, position);
+  constructor(random: SeededRandom, position: THREE.Vector3) {
+    super(ObstacleType.TREE, random, position);
     this.collisionRadius = OBSTACLE_CONFIG.TREE.TRUNK_RADIUS + 0.5;
     this.createMesh();
   }
@@ -186,12 +236,13 @@ export class Bird extends Obstacle {
   private waveOffset: number;
   private baseY: number;
   private wingAnimation: number = 0;
+  private flightTime: number = 0;
   
-  constructor(position: THREE.Vector3, direction: THREE.Vector3) {
-    super(ObstacleType.BIRD, position);
+  constructor(random: SeededRandom, position: THREE.Vector3, direction: THREE.Vector3) {
+    super(ObstacleType.BIRD, random, position);
     this.collisionRadius = OBSTACLE_CONFIG.BIRD.SIZE;
     this.baseY = position.y;
-    this.waveOffset = Math.random() * Math.PI * 2;
+    this.waveOffset = this.random.range(0, Math.PI * 2);
     
     // Set horizontal velocity
     this.velocity = direction.clone()
@@ -254,13 +305,13 @@ export class Bird extends Obstacle {
   public update(deltaTime: number, _playerPosition: THREE.Vector3): void {
     if (!this.isActive) return;
     
-    const elapsedTime = Date.now() / 1000;
+    this.flightTime += deltaTime;
     
     // Update position
     this.mesh.position.add(this.velocity.clone().multiplyScalar(deltaTime));
     
     // Wave motion
-    const waveY = Math.sin(elapsedTime * OBSTACLE_CONFIG.BIRD.WAVE_FREQUENCY + this.waveOffset) 
+    const waveY = Math.sin(this.flightTime * OBSTACLE_CONFIG.BIRD.WAVE_FREQUENCY + this.waveOffset) 
       * OBSTACLE_CONFIG.BIRD.WAVE_AMPLITUDE;
     this.mesh.position.y = this.baseY + waveY;
     
@@ -279,4 +330,20 @@ export class Bird extends Obstacle {
       this.deactivate();
     }
   }
+  
+  protected getSnapshotData(): Record<string, number> {
+    return {
+      waveOffset: this.waveOffset,
+      baseY: this.baseY,
+      wingAnimation: this.wingAnimation,
+      flightTime: this.flightTime
+    };
+  }
+  
+  protected restoreSnapshotData(data: Record<string, number>): void {
+    this.waveOffset = data.waveOffset;
+    this.baseY = data.baseY;
+    this.wingAnimation = data.wingAnimation;
+    this.flightTime = data.flightTime;
+  }
 }
\ No newline at end of file
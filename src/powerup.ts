@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { PowerUpType, POWERUP_CONFIG } from './constants';
+import { SeededRandom } from './seeded-random';
 
 export interface PowerUpEffect {
   type: PowerUpType;
@@ -7,6 +8,15 @@ export interface PowerUpEffect {
   duration: number;
 }
 
+// Serializable state of a power-up waiting on the field
+export interface PowerUpSnapshot {
+  type: PowerUpType;
+  position: THREE.Vector3Tuple;
+  floatOffset: number;
+  isActive: boolean;
+  rotation: THREE.Vector3Tuple;
+}
+
 export class PowerUp {
   public mesh: THREE.Group;
   public type: PowerUpType;
@@ -14,10 +24,10 @@ export class PowerUp {
   public isActive: boolean = true;
   private floatOffset: number;
   
-  constructor(type: PowerUpType, position: THREE.Vector3) {
+  constructor(type: PowerUpType, random: SeededRandom, position: THREE.Vector3) {
     this.type = type;
     this.position = position.clone();
-    this.floatOffset = Math.random() * Math.PI * 2;
+    this.floatOffset = random.range(0, Math.PI * 2);
     this.mesh = this.createMesh();
     this.mesh.position.copy(position);
   }
@@ -61,6 +71,10 @@ export class PowerUp {
         return POWERUP_CONFIG.EXPLOSIVE_ARROWS;
       case PowerUpType.SCORE_MULTIPLIER:
         return POWERUP_CONFIG.SCORE_MULTIPLIER;
+      case PowerUpType.HEALTH:
+        return POWERUP_CONFIG.HEALTH;
+      case PowerUpType.QUIVER_REFILL:
+        return POWERUP_CONFIG.QUIVER_REFILL;
     }
   }
   
@@ -88,6 +102,24 @@ export class PowerUp {
     this.mesh.visible = false;
   }
   
+  public toSnapshot(): PowerUpSnapshot {
+    return {
+      type: this.type,
+      position: this.position.toArray(),
+      floatOffset: this.floatOffset,
+      isActive: this.isActive,
+      rotation: [this.mesh.rotation.x, this.mesh.rotation.y, this.mesh.rotation.z]
+    };
+  }
+  
+  public restoreSnapshot(snapshot: PowerUpSnapshot): void {
+    this.floatOffset = snapshot.floatOffset;
+    this.mesh.rotation.set(...snapshot.rotation);
+    if (!snapshot.isActive) {
+      this.deactivate();
+    }
+  }
+  
   public dispose(): void {
     this.mesh.traverse((object) => {
       if (object instanceof THREE.Mesh) {
@@ -0,0 +1,154 @@
+import { ArrowType, CONFIG_VERSION, Difficulty, GameMode } from './constants';
+import { getConfigFingerprint } from './config-loader';
+import { RunEndReason } from './game-events';
+import { InputFrame, InputSource } from './input-source';
+import { getLevel } from './levels';
+
+export const RECORDING_FORMAT = 5;
+
+// One entry per step where the input changed; unchanged fields are left out
+export interface RecordedInput {
+  step: number;
+  left?: boolean;
+  right?: boolean;
+  aim?: [number, number];
+  draw?: boolean;
+  shoot?: true;
+  arrow?: ArrowType;
+  reload?: true;
+}
+
+export interface InputRecording {
+  format: number;
+  configVersion: number;
+  configFingerprint: number;
+  seed: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  level: string | null; // Level id for level runs
+  limitedAmmo: boolean;
+  totalSteps: number;
+  endReason: RunEndReason;
+  inputs: RecordedInput[];
+}
+
+const IDLE_FRAME: InputFrame = { left: false, right: false, aimX: 0, aimY: 0, draw: false, shoot: false, arrow: ArrowType.BROADHEAD, reload: false };
+
+// Captures the input stream of a run; together with the seed it reproduces the run exactly
+export class InputRecorder {
+  private seed: number;
+  private mode: GameMode;
+  private difficulty: Difficulty;
+  private level: string | null;
+  private limitedAmmo: boolean;
+  private inputs: RecordedInput[] = [];
+  private lastFrame: InputFrame = { ...IDLE_FRAME };
+
+  constructor(seed: number, mode: GameMode, difficulty: Difficulty, level: string | null, limitedAmmo: boolean) {
+    this.seed = seed;
+    this.mode = mode;
+    this.difficulty = difficulty;
+    this.level = level;
+    this.limitedAmmo = limitedAmmo;
+  }
+
+  public record(step: number, frame: InputFrame): void {
+    const entry: RecordedInput = { step };
+    if (frame.left !== this.lastFrame.left) entry.left = frame.left;
+    if (frame.right !== this.lastFrame.right) entry.right = frame.right;
+    if (frame.aimX !== this.lastFrame.aimX || frame.aimY !== this.lastFrame.aimY) {
+      entry.aim = [frame.aimX, frame.aimY];
+    }
+    if (frame.draw !== this.lastFrame.draw) entry.draw = frame.draw;
+    if (frame.shoot) entry.shoot = true;
+    if (frame.arrow !== this.lastFrame.arrow) entry.arrow = frame.arrow;
+    if (frame.reload) entry.reload = true;
+
+    if (Object.keys(entry).length > 1) {
+      this.inputs.push(entry);
+    }
+    this.lastFrame = { ...frame, shoot: false, reload: false };
+  }
+
+  public toRecording(totalSteps: number, endReason: RunEndReason): InputRecording {
+    return {
+      format: RECORDING_FORMAT,
+      configVersion: CONFIG_VERSION,
+      configFingerprint: getConfigFingerprint(),
+      seed: this.seed,
+      mode: this.mode,
+      difficulty: this.difficulty,
+      level: this.level,
+      limitedAmmo: this.limitedAmmo,
+      totalSteps,
+      endReason,
+      inputs: this.inputs.slice()
+    };
+  }
+}
+
+// Feeds a recording back into the game step by step
+export class ReplayInputSource implements InputSource {
+  public readonly recording: InputRecording;
+  private cursor = 0;
+  private frame: InputFrame = { ...IDLE_FRAME };
+
+  constructor(recording: InputRecording) {
+    this.recording = recording;
+  }
+
+  // Back to the first step, for seeking backwards
+  public rewind(): void {
+    this.cursor = 0;
+    this.frame = { ...IDLE_FRAME };
+  }
+
+  public poll(step: number): InputFrame {
+    this.frame.shoot = false;
+    this.frame.reload = false;
+
+    const inputs = this.recording.inputs;
+    while (this.cursor < inputs.length && inputs[this.cursor].step <= step) {
+      const entry = inputs[this.cursor++];
+      if (entry.left !== undefined) this.frame.left = entry.left;
+      if (entry.right !== undefined) this.frame.right = entry.right;
+      if (entry.aim) [this.frame.aimX, this.frame.aimY] = entry.aim;
+      if (entry.draw !== undefined) this.frame.draw = entry.draw;
+      if (entry.shoot) this.frame.shoot = true;
+      if (entry.arrow) this.frame.arrow = entry.arrow;
+      if (entry.reload) this.frame.reload = true;
+    }
+
+    return { ...this.frame };
+  }
+}
+
+// Validates a saved replay before playback, since a recording only reproduces a run on the config it was made with
+export function parseRecording(json: string): InputRecording {
+  const data = JSON.parse(json) as Partial<InputRecording>;
+
+  if (data.format !== RECORDING_FORMAT) {
+    throw new Error(`Unsupported replay format: ${data.format} (expected ${RECORDING_FORMAT})`);
+  }
+  if (data.configVersion !== CONFIG_VERSION) {
+    throw new Error(`Replay was recorded with config version ${data.configVersion}, but this build uses ${CONFIG_VERSION}`);
+  }
+  if (data.configFingerprint !== getConfigFingerprint()) {
+    throw new Error('Replay was recorded with different tuning; load it with the same ?config= it was played with');
+  }
+  if (typeof data.seed !== 'number' || typeof data.totalSteps !== 'number' || typeof data.limitedAmmo !== 'boolean' ||
+      !Array.isArray(data.inputs)) {
+    throw new Error('Replay is missing its seed, length, ammo rule or inputs');
+  }
+  if (!Object.values(GameMode).includes(data.mode as GameMode)) {
+    throw new Error(`Unknown game mode in replay: ${data.mode}`);
+  }
+  if (!Object.values(Difficulty).includes(data.difficulty as Difficulty)) {
+    throw new Error(`Unknown difficulty in replay: ${data.difficulty}`);
+  }
+  if ((data.mode === GameMode.LEVEL) !== (typeof data.level === 'string' && getLevel(data.level) !== undefined)) {
+    throw new Error(`Unknown level in replay: ${data.level}`);
+  }
+
+  return data as InputRecording;
+}
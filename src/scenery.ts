@@ -0,0 +1,292 @@
+import * as THREE from 'three';
+import { DAY_NIGHT_CONFIG, GAME_CONFIG, WIND_CONFIG } from './constants';
+import { TimeOfDay } from './day-night';
+import { DecorationKind, EnvironmentDefinition, ParticleSpec } from './environments';
+
+// Box the ambient particles drift through, wrapping round at the edges
+const PARTICLE_BOUNDS = new THREE.Box3(new THREE.Vector3(-40, 0, -40), new THREE.Vector3(40, 20, 25));
+
+// Tall decorations stay out of this half-width either side of the line from the camera to the wheel
+const SIGHT_LINE_CLEARANCE = 12;
+
+// Everything around the play field for one environment: lights, ground, decorations and particles.
+// It's all for show, so placement uses Math.random and never touches the seeded gameplay random.
+export class Scenery {
+  public readonly environment: EnvironmentDefinition;
+  private root = new THREE.Group();
+  private materials = new Map<string, THREE.Material>();
+  // Shared between every decoration of a kind, keyed by part
+  private geometries = new Map<string, THREE.BufferGeometry>();
+  private particles: THREE.Points | null = null;
+  private particlePhases: number[] = [];
+  private particleTime = 0;
+  // Kept to be relit by the day/night cycle
+  private scene: THREE.Scene | null = null;
+  private ambientLight!: THREE.AmbientLight;
+  private sunLight!: THREE.DirectionalLight;
+  private rimLight!: THREE.DirectionalLight;
+  private timeOfDay: TimeOfDay | null = null;
+  // The particles drift with the wind as well as their own motion
+  private wind = new THREE.Vector3();
+
+  constructor(environment: EnvironmentDefinition) {
+    this.environment = environment;
+    this.createLighting();
+    this.createGround();
+    environment.decorations.forEach(set => {
+      for (let i = 0; i < set.count; i++) {
+        const decoration = this.createDecoration(set.kind, set.colors[Math.floor(Math.random() * set.colors.length)]);
+        this.placeDecoration(decoration, set.kind, set.spread);
+        this.root.add(decoration);
+      }
+    });
+    if (environment.particles) {
+      this.createParticles(environment.particles);
+    }
+  }
+
+  public addTo(scene: THREE.Scene): void {
+    const { sky, fog } = this.environment;
+    scene.background = new THREE.Color(sky);
+    scene.fog = new THREE.Fog(fog.color, fog.near, fog.far);
+    scene.add(this.root);
+    this.scene = scene;
+  }
+
+  // Moves the sun and fades the sky and lights towards the environment's night; null is plain daytime
+  public setTimeOfDay(time: TimeOfDay | null): void {
+    if (!time && !this.timeOfDay) return;
+    this.timeOfDay = time;
+
+    const { sky, fog, lighting, night } = this.environment;
+    const daylight = time?.daylight ?? 1;
+    // Fades in around sunrise and sunset
+    const twilight = time ? 1 - THREE.MathUtils.smoothstep(Math.abs(time.sunHeight), 0, 0.3) : 0;
+    const blend = (target: THREE.Color, day: number, dark: number) =>
+      target.set(dark).lerp(new THREE.Color(day), daylight).lerp(new THREE.Color(DAY_NIGHT_CONFIG.SUNSET_COLOR), twilight * 0.35);
+
+    if (this.scene) {
+      blend(this.scene.background as THREE.Color, sky, night.sky);
+      blend((this.scene.fog as THREE.Fog).color, fog.color, night.fog);
+    }
+
+    this.ambientLight.color.set(night.ambient.color).lerp(new THREE.Color(lighting.ambient.color), daylight);
+    this.ambientLight.intensity = THREE.MathUtils.lerp(night.ambient.intensity, lighting.ambient.intensity, daylight);
+    this.rimLight.intensity = lighting.rim.intensity * (0.5 + daylight * 0.5);
+
+    if (!time) {
+      this.sunLight.color.set(lighting.sun.color);
+      this.sunLight.intensity = lighting.sun.intensity;
+      this.sunLight.position.set(...lighting.sun.position);
+      return;
+    }
+
+    // The moon takes over the same light at night; either one sits low near the horizon, stretching the shadows
+    const angle = time.phase * Math.PI * 2;
+    const height = Math.abs(time.sunHeight);
+    const fade = THREE.MathUtils.smoothstep(height, 0.02, 0.3);
+    const distance = DAY_NIGHT_CONFIG.SUN_DISTANCE;
+    this.sunLight.position.set(
+      Math.cos(angle) * Math.sign(time.sunHeight || 1) * distance,
+      Math.max(height, 0.1) * distance,
+      lighting.sun.position[2]
+    );
+    if (time.sunHeight >= 0) {
+      this.sunLight.color.set(DAY_NIGHT_CONFIG.SUNSET_COLOR).lerp(new THREE.Color(lighting.sun.color), fade);
+      this.sunLight.intensity = lighting.sun.intensity * fade;
+    } else {
+      this.sunLight.color.set(night.moon.color);
+      this.sunLight.intensity = night.moon.intensity * fade;
+    }
+  }
+
+  public setWind(wind: THREE.Vector3): void {
+    this.wind.copy(wind).multiplyScalar(WIND_CONFIG.PARTICLE_RESPONSE);
+  }
+
+  // Cosmetic, so it runs on frame time rather than the simulation clock
+  public update(deltaTime: number): void {
+    const spec = this.environment.particles;
+    if (!this.particles || !spec) return;
+
+    this.particleTime += deltaTime;
+    const positions = this.particles.geometry.getAttribute('position') as THREE.BufferAttribute;
+    const size = PARTICLE_BOUNDS.getSize(new THREE.Vector3());
+    const wrap = (value: number, min: number, range: number) => min + ((((value - min) % range) + range) % range);
+
+    for (let i = 0; i < positions.count; i++) {
+      const phase = this.particlePhases[i];
+      const sway = Math.sin(this.particleTime + phase) * spec.sway;
+      positions.setXYZ(
+        i,
+        wrap(positions.getX(i) + (spec.velocity[0] + this.wind.x + sway) * deltaTime, PARTICLE_BOUNDS.min.x, size.x),
+        wrap(positions.getY(i) + (spec.velocity[1] + Math.cos(this.particleTime * 1.3 + phase) * spec.sway * 0.5) * deltaTime, PARTICLE_BOUNDS.min.y, size.y),
+        wrap(positions.getZ(i) + (spec.velocity[2] + this.wind.z + sway * 0.5) * deltaTime, PARTICLE_BOUNDS.min.z, size.z)
+      );
+    }
+    positions.needsUpdate = true;
+
+    // Fireflies blink together, gently
+    if (spec.kind === 'fireflies') {
+      (this.particles.material as THREE.PointsMaterial).opacity = 0.5 + Math.sin(this.particleTime * 3) * 0.4;
+    }
+  }
+
+  public dispose(): void {
+    this.root.removeFromParent();
+    this.geometries.forEach(geometry => geometry.dispose());
+    this.materials.forEach(material => material.dispose());
+    this.particles?.geometry.dispose();
+    (this.particles?.material as THREE.Material | undefined)?.dispose();
+  }
+
+  private createLighting(): void {
+    const { ambient, sun, rim } = this.environment.lighting;
+    this.ambientLight = new THREE.AmbientLight(ambient.color, ambient.intensity);
+    this.root.add(this.ambientLight);
+
+    const directionalLight = new THREE.DirectionalLight(sun.color, sun.intensity);
+    directionalLight.position.set(...sun.position);
+    directionalLight.castShadow = true;
+    directionalLight.shadow.camera.left = -20;
+    directionalLight.shadow.camera.right = 20;
+    directionalLight.shadow.camera.top = 20;
+    directionalLight.shadow.camera.bottom = -20;
+    directionalLight.shadow.camera.near = 0.1;
+    directionalLight.shadow.camera.far = 50;
+    directionalLight.shadow.mapSize.width = GAME_CONFIG.SHADOW_MAP_SIZE;
+    directionalLight.shadow.mapSize.height = GAME_CONFIG.SHADOW_MAP_SIZE;
+    this.root.add(directionalLight);
+    this.sunLight = directionalLight;
+
+    // Add a subtle rim light
+    this.rimLight = new THREE.DirectionalLight(rim.color, rim.intensity);
+    this.rimLight.position.set(-5, 10, -10);
+    this.root.add(this.rimLight);
+  }
+
+  private createGround(): void {
+    const ground = new THREE.Mesh(this.sharedGeometry('ground', () => new THREE.PlaneGeometry(100, 100)), this.material(this.environment.ground));
+    ground.rotation.x = -Math.PI / 2;
+    ground.receiveShadow = true;
+    this.root.add(ground);
+  }
+
+  private createDecoration(kind: DecorationKind, color: number): THREE.Object3D {
+    const mesh = (geometry: THREE.BufferGeometry, meshColor: number, type: 'lambert' | 'basic' = 'lambert') => {
+      const part = new THREE.Mesh(geometry, this.material(meshColor, type));
+      part.castShadow = type === 'lambert';
+      part.receiveShadow = true;
+      return part;
+    };
+
+    switch (kind) {
+      case 'patch': {
+        const patch = mesh(this.sharedGeometry('patch', () => new THREE.CircleGeometry(2, 8)), color);
+        patch.castShadow = false;
+        patch.rotation.x = -Math.PI / 2;
+        patch.position.y = 0.01;
+        return patch;
+      }
+      case 'rock': {
+        const rock = mesh(this.sharedGeometry('rock', () => new THREE.DodecahedronGeometry(0.3, 0)), color);
+        rock.rotation.set(Math.random() * Math.PI, Math.random() * Math.PI, Math.random() * Math.PI);
+        rock.position.y = 0.15;
+        return rock;
+      }
+      case 'cactus': {
+        const cactus = new THREE.Group();
+        const trunk = mesh(this.sharedGeometry('cactus-trunk', () => new THREE.CylinderGeometry(0.3, 0.35, 2.4, 8)), color);
+        trunk.position.y = 1.2;
+        cactus.add(trunk);
+        [-1, 1].forEach(side => {
+          const arm = mesh(this.sharedGeometry('cactus-arm', () => new THREE.CylinderGeometry(0.18, 0.18, 0.9, 6)), color);
+          arm.position.set(side * 0.45, 1.2 + Math.random() * 0.6, 0);
+          cactus.add(arm);
+        });
+        return cactus;
+      }
+      case 'pine': {
+        const pine = new THREE.Group();
+        const trunk = mesh(this.sharedGeometry('pine-trunk', () => new THREE.CylinderGeometry(0.15, 0.2, 1, 6)), 0x4a3020);
+        trunk.position.y = 0.5;
+        const crown = mesh(this.sharedGeometry('pine-crown', () => new THREE.ConeGeometry(1.2, 3.2, 8)), color);
+        crown.position.y = 2.4;
+        pine.add(trunk, crown);
+        return pine;
+      }
+      case 'drift': {
+        const drift = mesh(this.sharedGeometry('drift', () => new THREE.SphereGeometry(1, 10, 6)), color);
+        drift.scale.set(1.5, 0.35, 1);
+        return drift;
+      }
+      case 'lantern': {
+        const lantern = new THREE.Group();
+        const pole = mesh(this.sharedGeometry('lantern-pole', () => new THREE.CylinderGeometry(0.05, 0.05, 2.6, 6)), 0x2a2018);
+        pole.position.y = 1.3;
+        const light = mesh(this.sharedGeometry('lantern-light', () => new THREE.SphereGeometry(0.35, 10, 8)), color, 'basic');
+        light.scale.y = 1.3;
+        light.position.y = 2.7;
+        lantern.add(pole, light);
+        return lantern;
+      }
+    }
+  }
+
+  private placeDecoration(decoration: THREE.Object3D, kind: DecorationKind, spread: number): void {
+    let x = (Math.random() - 0.5) * spread;
+    const z = (Math.random() - 0.5) * spread;
+    // Anything tall between the camera and the wheel would hide the targets
+    const tall = kind === 'cactus' || kind === 'pine' || kind === 'lantern';
+    if (tall && Math.abs(x) < SIGHT_LINE_CLEARANCE && z > -30) {
+      x = Math.sign(x || 1) * (SIGHT_LINE_CLEARANCE + Math.random() * Math.max(0, spread / 2 - SIGHT_LINE_CLEARANCE));
+    }
+    decoration.position.x = x;
+    decoration.position.z = z;
+    decoration.rotation.y = kind === 'patch' ? 0 : Math.random() * Math.PI * 2;
+
+    const scale = Math.random() * 0.5 + 0.5;
+    if (kind === 'patch') {
+      decoration.scale.set(scale, scale, 1);
+    } else if (kind !== 'drift') {
+      decoration.scale.setScalar(kind === 'rock' ? scale : scale + 0.5);
+    }
+  }
+
+  private createParticles(spec: ParticleSpec): void {
+    const positions = new Float32Array(spec.count * 3);
+    for (let i = 0; i < spec.count; i++) {
+      positions[i * 3] = THREE.MathUtils.randFloat(PARTICLE_BOUNDS.min.x, PARTICLE_BOUNDS.max.x);
+      positions[i * 3 + 1] = THREE.MathUtils.randFloat(PARTICLE_BOUNDS.min.y, PARTICLE_BOUNDS.max.y);
+      positions[i * 3 + 2] = THREE.MathUtils.randFloat(PARTICLE_BOUNDS.min.z, PARTICLE_BOUNDS.max.z);
+      this.particlePhases.push(Math.random() * Math.PI * 2);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    const material = new THREE.PointsMaterial({
+      color: spec.color,
+      size: spec.size,
+      transparent: true,
+      opacity: 0.8,
+      depthWrite: false
+    });
+    this.particles = new THREE.Points(geometry, material);
+    this.root.add(this.particles);
+  }
+
+  private sharedGeometry(key: string, create: () => THREE.BufferGeometry): THREE.BufferGeometry {
+    if (!this.geometries.has(key)) {
+      this.geometries.set(key, create());
+    }
+    return this.geometries.get(key)!;
+  }
+
+  private material(color: number, type: 'lambert' | 'basic' = 'lambert'): THREE.Material {
+    const key = `${type}_${color}`;
+    if (!this.materials.has(key)) {
+      this.materials.set(key, type === 'lambert' ? new THREE.MeshLambertMaterial({ color }) : new THREE.MeshBasicMaterial({ color }));
+    }
+    return this.materials.get(key)!;
+  }
+}
@@ -0,0 +1,73 @@
+const UINT32_RANGE = 0x100000000;
+
+// Deterministic random source for every gameplay decision, so a run can be
+// replayed exactly from its seed. Purely cosmetic effects keep Math.random
+// so they never shift the gameplay sequence.
+export class SeededRandom {
+  private currentSeed = 0;
+  private state = 0;
+
+  constructor(seed: number = SeededRandom.createSeed()) {
+    this.reseed(seed);
+  }
+
+  public get seed(): number {
+    return this.currentSeed;
+  }
+
+  // Restarts the sequence, e.g. when a new run begins
+  public reseed(seed: number): void {
+    this.currentSeed = seed >>> 0;
+    this.state = this.currentSeed;
+  }
+
+  // Position in the sequence, so a saved game continues with the same numbers
+  public getState(): number {
+    return this.state;
+  }
+
+  public setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  public static createSeed(): number {
+    return Math.floor(Math.random() * UINT32_RANGE);
+  }
+
+  // Accepts numeric seeds as-is and hashes anything else (FNV-1a) so `?seed=daily-challenge` works too
+  public static parseSeed(value: string): number {
+    const trimmed = value.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) % UINT32_RANGE;
+    }
+
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  // Mulberry32: small, fast and good enough for game spawning
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / UINT32_RANGE;
+  }
+
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  // Inclusive on both ends
+  public int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+}
\ No newline at end of file
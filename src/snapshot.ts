@@ -0,0 +1,139 @@
+import * as THREE from 'three';
+import { ArrowType, CONFIG_VERSION, Difficulty, GameMode } from './constants';
+import { getConfigFingerprint } from './config-loader';
+import { DirectorSnapshot } from './difficulty-director';
+import { getLevel } from './levels';
+import { WheelMotorSnapshot } from './wheel-motor';
+import { WindSnapshot } from './wind';
+import { ObstacleSnapshot } from './obstacle';
+import { PowerUpEffect, PowerUpSnapshot } from './powerup';
+import { TargetSnapshot } from './target';
+
+export const SNAPSHOT_FORMAT = 9;
+
+export interface ArrowSnapshot {
+  position: THREE.Vector3Tuple;
+  velocity: THREE.Vector3Tuple;
+  quaternion: THREE.Vector4Tuple;
+  isExplosive: boolean;
+  type: ArrowType;
+  hitsLeft: number;
+  stuckAt: number | null;
+  stuckIn: number | null; // Wheel index; the position and rotation are then relative to the wheel
+}
+
+// Complete state of a run at a step boundary. Unlike a recording it doesn't need the
+// run's history, so it can resume a game later or drop QA straight into a scenario.
+export interface GameSnapshot {
+  format: number;
+  configVersion: number;
+  configFingerprint: number;
+  mode: GameMode;
+  difficulty: Difficulty;
+  level: string | null;
+  // Scripted spawns already made, and level goal progress
+  levelCursor: number;
+  targetsCleared: number;
+  seed: number;
+  randomState: number;
+  time: number;
+  stepCount: number;
+
+  score: number;
+  shotsFired: number;
+  shotsHit: number;
+  comboCount: number;
+  comboMultiplier: number;
+  scoreMultiplier: number;
+  health: number;
+  invulnerableUntil: number;
+  isStunned: boolean;
+  stunnedUntil: number;
+
+  // Timer values of -Infinity ("never happened") are stored as null, JSON has no infinity
+  lastPowerUpSpawn: number | null;
+  lastArrowShot: number | null;
+  arrowCooldown: number; // Of the last arrow loosed, ms
+  arrowType: ArrowType; // The one on the string
+  limitedAmmo: boolean;
+  quiverArrows: number;
+  spareArrows: number;
+  reloadEndsAt: number | null;
+  lastObstacleSpawn: number | null;
+  lastTargetCheck: number | null;
+  lastHitTime: number | null;
+  drawStartedAt: number | null; // Null while the bow isn't drawn
+
+  bleda: {
+    x: number;
+    y: number;
+    velocityX: number;
+    legAnimation: number;
+  };
+  wheel: {
+    rotations: number[]; // One per wheel of the run's layout
+    motor: WheelMotorSnapshot;
+  };
+  director: DirectorSnapshot;
+  wind: WindSnapshot;
+
+  targets: TargetSnapshot[];
+  // Game-clock times of targets still waiting to appear, e.g. from a mystery multiball
+  pendingTargetSpawns: number[];
+  arrows: ArrowSnapshot[];
+  powerUps: PowerUpSnapshot[];
+  activePowerUps: PowerUpEffect[];
+  obstacles: ObstacleSnapshot[];
+}
+
+export function encodeTime(time: number): number | null {
+  return Number.isFinite(time) ? time : null;
+}
+
+export function decodeTime(time: number | null): number {
+  return time ?? -Infinity;
+}
+
+// Validates a saved game before loading it; objects are rebuilt from the current config, so it has to match
+export function parseSnapshot(json: string): GameSnapshot {
+  const data = JSON.parse(json) as Partial<GameSnapshot>;
+
+  if (data.format !== SNAPSHOT_FORMAT) {
+    throw new Error(`Unsupported save format: ${data.format} (expected ${SNAPSHOT_FORMAT})`);
+  }
+  if (data.configVersion !== CONFIG_VERSION) {
+    throw new Error(`Save was made with config version ${data.configVersion}, but this build uses ${CONFIG_VERSION}`);
+  }
+  if (data.configFingerprint !== getConfigFingerprint()) {
+    throw new Error('Save was made with different tuning; load it with the same ?config= it was played with');
+  }
+  if (typeof data.seed !== 'number' || typeof data.time !== 'number' || !data.bleda || !data.wheel || !data.director || !data.wind) {
+    throw new Error('Save is missing its seed, time, player, director or wind state');
+  }
+  if (!Array.isArray(data.targets) || !Array.isArray(data.arrows) || !Array.isArray(data.powerUps) ||
+      !Array.isArray(data.activePowerUps) || !Array.isArray(data.obstacles) || !Array.isArray(data.pendingTargetSpawns)) {
+    throw new Error('Save is missing its targets, arrows, power-ups or obstacles');
+  }
+  if (!Object.values(GameMode).includes(data.mode as GameMode)) {
+    throw new Error(`Unknown game mode in save: ${data.mode}`);
+  }
+  if (!Object.values(Difficulty).includes(data.difficulty as Difficulty)) {
+    throw new Error(`Unknown difficulty in save: ${data.difficulty}`);
+  }
+  if (!Object.values(ArrowType).includes(data.arrowType as ArrowType) ||
+      data.arrows.some(arrow => !Object.values(ArrowType).includes(arrow.type))) {
+    throw new Error('Unknown arrow type in save');
+  }
+  if ((data.mode === GameMode.LEVEL) !== (typeof data.level === 'string' && getLevel(data.level) !== undefined)) {
+    throw new Error(`Unknown level in save: ${data.level}`);
+  }
+  // The layout comes from the level, the save only has each wheel's spin
+  const wheelCount = (data.level ? getLevel(data.level)?.wheels?.length : undefined) ?? 1;
+  if (!Array.isArray(data.wheel.rotations) || data.wheel.rotations.length !== wheelCount ||
+      data.targets.some(target => !(target.wheel >= 0 && target.wheel < wheelCount)) ||
+      data.arrows.some(arrow => arrow.stuckIn !== null && !(arrow.stuckIn >= 0 && arrow.stuckIn < wheelCount))) {
+    throw new Error('Save does not match the wheel layout of its level');
+  }
+
+  return data as GameSnapshot;
+}
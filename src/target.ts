@@ -1,28 +1,62 @@
 import * as THREE from 'three';
-import { TargetType, TARGET_CONFIG } from './constants';
+import { DAY_NIGHT_CONFIG, TargetType, TARGET_CONFIG } from './constants';
+import { GameClock } from './game-clock';
+import { SeededRandom } from './seeded-random';
+import { Wheel } from './wheel';
 
 export interface TargetEffect {
   update(deltaTime: number, elapsedTime: number): void;
   dispose(): void;
 }
 
+// Serializable target state for save games; `data` holds what only some target types track
+export interface TargetSnapshot {
+  type: TargetType;
+  wheel: number;
+  wheelAngle: number;
+  spawnTime: number;
+  points: number;
+  isActive: boolean;
+  expired: boolean;
+  burnUntil: number | null;
+  position: THREE.Vector3Tuple;
+  rotation: THREE.Vector3Tuple;
+  data: Record<string, number | boolean>;
+}
+
 export abstract class Target {
   public mesh: THREE.Group;
   public type: TargetType;
   public isActive: boolean = true;
+  // Set when the target leaves the wheel without being hit
+  public expired: boolean = false;
   public points: number;
   protected size: number;
   public wheelAngle: number = 0;
+  // Index of the wheel the target rides on, in the game's list of wheels
+  public wheelIndex: number = 0;
+  // Angle around the wheel at the last two steps; rendering blends them like the wheel blends its spin
+  private orbitAngle = 0;
+  private previousOrbitAngle = 0;
   protected wheelRadius: number;
   protected spawnTime: number;
   protected lifetime: number | null;
   protected effects: TargetEffect[] = [];
-  
-  constructor(type: TargetType, wheelRadius: number, angle: number = 0) {
+  protected clock: GameClock;
+  protected random: SeededRandom;
+  // 0 by day, 1 at midnight; targets that glow shine brighter in the dark
+  protected nightLevel = 0;
+  // Game time a fire arrow's flames finish the target off, or null if it isn't burning
+  public burnUntil: number | null = null;
+  private flame: THREE.Mesh | null = null;
+  
+  constructor(type: TargetType, clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number = 0) {
     this.type = type;
+    this.clock = clock;
+    this.random = random;
     this.wheelRadius = wheelRadius;
     this.wheelAngle = angle;
-    this.spawnTime = Date.now();
+    this.spawnTime = clock.now();
     this.mesh = new THREE.Group();
     
     const config = this.getConfig();
@@ -31,28 +65,86 @@ export abstract class Target {
     this.lifetime = config.LIFETIME || null;
   }
   
+  // Difficulty stretches or shortens how long timed targets stay on the wheel
+  public scaleLifetime(factor: number): void {
+    if (this.lifetime !== null) {
+      this.lifetime *= factor;
+    }
+  }
+  
+  public setNightLevel(level: number): void {
+    this.nightLevel = level;
+  }
+  
+  public ignite(until: number): void {
+    this.burnUntil = until;
+    if (!this.flame) {
+      this.flame = new THREE.Mesh(
+        new THREE.ConeGeometry(this.size * 0.6, this.size * 1.5, 6),
+        new THREE.MeshBasicMaterial({ color: 0xff6a1a, transparent: true, opacity: 0.8 })
+      );
+      this.mesh.add(this.flame);
+    }
+  }
+  
+  // Burning and out of time; the game scores it and takes it off the wheel
+  public get burntOut(): boolean {
+    return this.isActive && this.burnUntil !== null && this.clock.now() >= this.burnUntil;
+  }
+  
+  // How much brighter glow effects are at the current time of day
+  protected get nightGlow(): number {
+    return 1 + this.nightLevel * DAY_NIGHT_CONFIG.NIGHT_GLOW_BOOST;
+  }
+  
   protected abstract getConfig(): any;
   protected abstract createMesh(): void;
   
-  public update(deltaTime: number, wheelRotation: number, elapsedTime: number): void {
+  // Puts a new (or just loaded) target where it belongs on the wheel, with nothing to blend from
+  public placeOn(wheel: Wheel): void {
+    this.orbitAngle = this.getOrbitAngle(wheel);
+    this.previousOrbitAngle = this.orbitAngle;
+    this.placeOnOrbit(wheel, this.orbitAngle);
+  }
+  
+  public storePreviousState(): void {
+    this.previousOrbitAngle = this.orbitAngle;
+  }
+  
+  public render(wheel: Wheel, alpha: number): void {
+    if (!this.isActive) return;
+    this.placeOnOrbit(wheel, THREE.MathUtils.lerp(this.previousOrbitAngle, this.orbitAngle, alpha));
+  }
+  
+  protected getOrbitAngle(wheel: Wheel): number {
+    return this.wheelAngle + wheel.rotation;
+  }
+  
+  protected placeOnOrbit(wheel: Wheel, angle: number): void {
+    wheel.setOrbitPosition(this.mesh.position, angle, this.wheelRadius);
+  }
+  
+  // Follows the simulated wheel; render() blends from the angle a step earlier
+  protected updateOrbit(wheel: Wheel): void {
+    this.orbitAngle = this.getOrbitAngle(wheel);
+    this.placeOnOrbit(wheel, this.orbitAngle);
+  }
+  
+  public update(deltaTime: number, wheel: Wheel, elapsedTime: number): void {
     if (!this.isActive) return;
     
-    // Update position based on wheel rotation
-    const totalAngle = this.wheelAngle + wheelRotation;
-    this.mesh.position.x = Math.cos(totalAngle) * this.wheelRadius;
-    this.mesh.position.y = Math.sin(totalAngle) * this.wheelRadius;
+    this.updateOrbit(wheel);
     
-    // Check lifetime
-    if (this.lifetime !== null) {
-      const age = Date.now() - this.spawnTime;
-      if (age >= this.lifetime) {
-        this.deactivate();
-        return;
-      }
+    if (this.hasExpired()) {
+      this.expire();
+      return;
     }
     
     // Update effects
     this.effects.forEach(effect => effect.update(deltaTime, elapsedTime));
+    if (this.flame) {
+      this.flame.scale.setScalar(0.8 + 0.2 * Math.sin(elapsedTime * 20));
+    }
     
     // Target-specific updates
     this.updateSpecific(deltaTime, elapsedTime);
@@ -60,6 +152,10 @@ export abstract class Target {
   
   protected abstract updateSpecific(deltaTime: number, elapsedTime: number): void;
   
+  protected hasExpired(): boolean {
+    return this.lifetime !== null && this.clock.now() - this.spawnTime >= this.lifetime;
+  }
+  
   public checkCollision(arrowPosition: THREE.Vector3): boolean {
     if (!this.isActive) return false;
     
@@ -79,11 +175,56 @@ export abstract class Target {
     // Override in subclasses that react to misses
   }
   
+  public toSnapshot(): TargetSnapshot {
+    return {
+      type: this.type,
+      wheel: this.wheelIndex,
+      wheelAngle: this.wheelAngle,
+      spawnTime: this.spawnTime,
+      points: this.points,
+      isActive: this.isActive,
+      expired: this.expired,
+      burnUntil: this.burnUntil,
+      position: this.mesh.position.toArray(),
+      rotation: [this.mesh.rotation.x, this.mesh.rotation.y, this.mesh.rotation.z],
+      data: this.getSnapshotData()
+    };
+  }
+  
+  public restoreSnapshot(snapshot: TargetSnapshot): void {
+    this.wheelIndex = snapshot.wheel;
+    this.wheelAngle = snapshot.wheelAngle;
+    this.spawnTime = snapshot.spawnTime;
+    this.points = snapshot.points;
+    this.expired = snapshot.expired;
+    this.mesh.position.fromArray(snapshot.position);
+    this.mesh.rotation.set(...snapshot.rotation);
+    if (!snapshot.isActive) {
+      this.deactivate();
+    }
+    if (snapshot.burnUntil !== null) {
+      this.ignite(snapshot.burnUntil);
+    }
+    this.restoreSnapshotData(snapshot.data);
+  }
+  
+  // Override in subclasses with state beyond the common fields
+  protected getSnapshotData(): Record<string, number | boolean> {
+    return {};
+  }
+  
+  protected restoreSnapshotData(_data: Record<string, number | boolean>): void {}
+  
   public deactivate(): void {
     this.isActive = false;
     this.mesh.visible = false;
   }
   
+  protected expire(): void {
+    this.expired = true;
+    this.deactivate();
+  }
+  
   public dispose(): void {
     this.effects.forEach(effect => effect.dispose());
     this.mesh.traverse((object) => {
@@ -99,8 +240,8 @@ export abstract class Target {
 
 // Standard Target
 export class StandardTarget extends Target {
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.STANDARD, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.STANDARD, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -126,10 +267,11 @@ export class StandardTarget extends Target {
 // Gold Target with glow effect
 export class GoldTarget extends Target {
   private glowLight!: THREE.PointLight;
+  private sphereMaterial!: THREE.MeshLambertMaterial;
   private particles!: THREE.Points;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.GOLD, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.GOLD, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -147,6 +289,7 @@ export class GoldTarget extends Target {
     });
     const sphere = new THREE.Mesh(geometry, material);
     sphere.castShadow = true;
+    this.sphereMaterial = material;
     
     // Glow effect
     this.glowLight = new THREE.PointLight(TARGET_CONFIG.GOLD.COLOR, TARGET_CONFIG.GOLD.GLOW_INTENSITY, 3);
@@ -184,8 +327,10 @@ export class GoldTarget extends Target {
     this.particles.rotation.z += deltaTime;
     
     // Pulse glow
-    this.glowLight.intensity = TARGET_CONFIG.GOLD.GLOW_INTENSITY + 
-      Math.sin(elapsedTime * 3) * 0.5;
+    this.glowLight.intensity = (TARGET_CONFIG.GOLD.GLOW_INTENSITY + 
+      Math.sin(elapsedTime * 3) * 0.5) * this.nightGlow;
+    this.glowLight.distance = 3 * this.nightGlow;
+    this.sphereMaterial.emissiveIntensity = 0.3 * this.nightGlow;
   }
 }
 
@@ -194,8 +339,8 @@ export class SpeedTarget extends Target {
   private speedMultiplier: number;
   private trail: THREE.Mesh[] = [];
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.SPEED, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.SPEED, clock, random, wheelRadius, angle);
     this.speedMultiplier = TARGET_CONFIG.SPEED.SPEED_MULTIPLIER;
     this.createMesh();
   }
@@ -229,37 +374,39 @@ export class SpeedTarget extends Target {
     this.mesh.add(cone);
   }
   
-  public update(deltaTime: number, wheelRotation: number, elapsedTime: number): void {
+  public update(deltaTime: number, wheel: Wheel, elapsedTime: number): void {
     if (!this.isActive) return;
     
-    // Update position with speed multiplier
-    const totalAngle = this.wheelAngle + wheelRotation * this.speedMultiplier;
-    this.mesh.position.x = Math.cos(totalAngle) * this.wheelRadius;
-    this.mesh.position.y = Math.sin(totalAngle) * this.wheelRadius;
-    
-    // Update trail positions
-    for (let i = 0; i < this.trail.length; i++) {
-      const trailAngle = totalAngle - (i + 1) * 0.1;
-      this.trail[i].position.x = Math.cos(trailAngle) * this.wheelRadius - this.mesh.position.x;
-      this.trail[i].position.y = Math.sin(trailAngle) * this.wheelRadius - this.mesh.position.y;
-    }
-    
     this.wheelAngle += deltaTime * (this.speedMultiplier - 1);
+    this.updateOrbit(wheel);
     
-    // Check lifetime
-    if (this.lifetime !== null) {
-      const age = Date.now() - this.spawnTime;
-      if (age >= this.lifetime) {
-        this.deactivate();
-        return;
-      }
+    if (this.hasExpired()) {
+      this.expire();
+      return;
     }
     
     this.updateSpecific(deltaTime, elapsedTime);
   }
   
+  // Runs ahead of the wheel by its speed multiplier
+  protected getOrbitAngle(wheel: Wheel): number {
+    return this.wheelAngle + wheel.rotation * this.speedMultiplier;
+  }
+  
+  protected placeOnOrbit(wheel: Wheel, angle: number): void {
+    super.placeOnOrbit(wheel, angle);
+    
+    // Update trail positions, trailing behind whichever way the wheel turns
+    for (let i = 0; i < this.trail.length; i++) {
+      const trailAngle = angle - (i + 1) * 0.1 * wheel.direction;
+      wheel.setOrbitPosition(this.trail[i].position, trailAngle, this.wheelRadius);
+      this.trail[i].position.x -= this.mesh.position.x;
+      this.trail[i].position.y -= this.mesh.position.y;
+    }
+  }
+  
   protected updateSpecific(_deltaTime: number, _elapsedTime: number): void {
-    // Trail is updated in main update method
+    // Trail is updated with the orbit
   }
 }
 
@@ -267,8 +414,8 @@ export class SpeedTarget extends Target {
 export class BonusTarget extends Target {
   private pulseScale: number = 1;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.BONUS, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.BONUS, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -320,8 +467,8 @@ export class ShrinkingTarget extends Target {
   private currentSize: number;
   private missCount: number = 0;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.SHRINKING, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.SHRINKING, clock, random, wheelRadius, angle);
     this.currentSize = TARGET_CONFIG.SHRINKING.SIZE_START;
     this.size = this.currentSize;
     this.updatePoints();
@@ -359,7 +506,7 @@ export class ShrinkingTarget extends Target {
   public onMiss(): void {
     this.missCount++;
     if (this.missCount >= TARGET_CONFIG.SHRINKING.MAX_MISSES) {
-      this.deactivate();
+      this.expire();
       return;
     }
     
@@ -374,6 +521,17 @@ export class ShrinkingTarget extends Target {
     this.updatePoints();
   }
   
+  protected getSnapshotData(): Record<string, number | boolean> {
+    return { currentSize: this.currentSize, missCount: this.missCount };
+  }
+  
+  protected restoreSnapshotData(data: Record<string, number | boolean>): void {
+    this.currentSize = Number(data.currentSize);
+    this.missCount = Number(data.missCount);
+    this.size = this.currentSize;
+    this.mesh.scale.setScalar(this.currentSize / TARGET_CONFIG.SHRINKING.SIZE_START);
+  }
+  
   private updatePoints(): void {
     const sizeRatio = (this.currentSize - TARGET_CONFIG.SHRINKING.SIZE_MIN) / 
                      (TARGET_CONFIG.SHRINKING.SIZE_START - TARGET_CONFIG.SHRINKING.SIZE_MIN);
@@ -388,8 +546,8 @@ export class ShrinkingTarget extends Target {
 export class SplitTarget extends Target {
   private splitCount: number = 0;
   
-  constructor(wheelRadius: number, angle: number, splitCount: number = 0) {
-    super(TargetType.SPLIT, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number, splitCount: number = 0) {
+    super(TargetType.SPLIT, clock, random, wheelRadius, angle);
     this.splitCount = splitCount;
     this.size = TARGET_CONFIG.SPLIT.SIZE * Math.pow(TARGET_CONFIG.SPLIT.SPLIT_SIZE_MULTIPLIER, splitCount);
     this.createMesh();
@@ -435,14 +593,19 @@ export class SplitTarget extends Target {
     
     return { points: this.points };
   }
+  
+  // Restored by passing it back to the constructor, since it decides the mesh size
+  protected getSnapshotData(): Record<string, number | boolean> {
+    return { splitCount: this.splitCount };
+  }
 }
 
 // Mystery Target
 export class MysteryTarget extends Target {
-  private questionMark!: THREE.Sprite;
+  private questionMark: THREE.Sprite | null = null;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.MYSTERY, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.MYSTERY, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -458,6 +621,10 @@ export class MysteryTarget extends Target {
     });
     const box = new THREE.Mesh(geometry, material);
     box.castShadow = true;
+    this.mesh.add(box);
+    
+    // The question mark needs a canvas, which headless runs don't have
+    if (typeof document === 'undefined') return;
     
     // Create question mark
     const canvas = document.createElement('canvas');
@@ -478,7 +645,6 @@ export class MysteryTarget extends Target {
     this.questionMark = new THREE.Sprite(spriteMaterial) as THREE.Sprite;
     this.questionMark.scale.set(this.size * 2, this.size * 2, 1);
     
-    this.mesh.add(box);
     this.mesh.add(this.questionMark);
   }
   
@@ -488,7 +654,9 @@ export class MysteryTarget extends Target {
     this.mesh.rotation.y += deltaTime * TARGET_CONFIG.MYSTERY.QUESTION_MARK_SPIN_SPEED * 1.3;
     
     // Keep question mark facing camera
-    this.questionMark.rotation.z -= deltaTime * 2;
+    if (this.questionMark) {
+      this.questionMark.rotation.z -= deltaTime * 2;
+    }
   }
   
   public onHit(): { points: number, special?: any } {
@@ -503,7 +671,7 @@ export class MysteryTarget extends Target {
       { points: 0, multiball: true, message: '|| MULT1-B4LL M0D3! ||' }
     ];
     
-    const reward = rewards[Math.floor(Math.random() * rewards.length)];
+    const reward = this.random.pick(rewards);
     
     return {
       points: reward.points,
@@ -520,8 +688,8 @@ export class GhostTarget extends Target {
   private phaseTime: number = 0;
   private isVisible: boolean = true;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.GHOST, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.GHOST, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -583,14 +751,32 @@ export class GhostTarget extends Target {
     if (!this.isVisible) return false;
     return super.checkCollision(arrowPosition);
   }
+  
+  protected getSnapshotData(): Record<string, number | boolean> {
+    return { phaseTime: this.phaseTime, isVisible: this.isVisible };
+  }
+  
+  protected restoreSnapshotData(data: Record<string, number | boolean>): void {
+    this.phaseTime = Number(data.phaseTime);
+    this.isVisible = Boolean(data.isVisible);
+    
+    // Skip the fade so a hidden ghost doesn't show up fully opaque
+    const opacity = this.isVisible ? 0.7 : 0.1;
+    this.mesh.children.forEach(child => {
+      if (child instanceof THREE.Mesh && child.material instanceof THREE.Material && child.material.transparent) {
+        child.material.opacity = opacity;
+      }
+    });
+  }
 }
 
 // Magnetic Target
 export class MagneticTarget extends Target {
   private magneticField!: THREE.Mesh;
+  private torusMaterial!: THREE.MeshLambertMaterial;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.MAGNETIC, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.MAGNETIC, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -608,6 +794,7 @@ export class MagneticTarget extends Target {
     });
     const torus = new THREE.Mesh(geometry, material);
     torus.castShadow = true;
+    this.torusMaterial = material;
     
     // Magnetic field visualization
     const fieldGeometry = new THREE.RingGeometry(
@@ -636,8 +823,9 @@ export class MagneticTarget extends Target {
     const scale = 1 + Math.sin(elapsedTime * 4) * 0.1;
     this.magneticField.scale.setScalar(scale);
     
-    // Electric arc effect
-    (this.magneticField.material as THREE.MeshBasicMaterial).opacity = 0.2 + Math.random() * 0.1;
+    // Electric arc effect, easier to make out at night
+    (this.magneticField.material as THREE.MeshBasicMaterial).opacity = Math.min(0.5, (0.2 + Math.random() * 0.1) * this.nightGlow);
+    this.torusMaterial.emissiveIntensity = 0.2 * this.nightGlow;
   }
   
   public getMagneticForce(arrowPosition: THREE.Vector3): THREE.Vector3 | null {
@@ -665,8 +853,8 @@ export class MagneticTarget extends Target {
 export class ExplosiveTarget extends Target {
   private fuseParticles!: THREE.Points;
   
-  constructor(wheelRadius: number, angle: number) {
-    super(TargetType.EXPLOSIVE, wheelRadius, angle);
+  constructor(clock: GameClock, random: SeededRandom, wheelRadius: number, angle: number) {
+    super(TargetType.EXPLOSIVE, clock, random, wheelRadius, angle);
     this.createMesh();
   }
   
@@ -1,14 +1,165 @@
-import { UI_STYLES, ANIMATION_TIMINGS, GAME_CONFIG, PowerUpType, POWERUP_CONFIG, ObstacleType, TargetType } from './constants';
+import { UI_STYLES, AIM_GUIDE_CONFIG, ArrowType, ARROW_CONFIG, ANIMATION_TIMINGS, GAME_CONFIG, WHEEL_CONFIG, WIND_CONFIG, GameState, ARCADE_CONFIG, Difficulty, DIFFICULTY_CONFIG, PowerUpType, POWERUP_CONFIG, POWERUP_MESSAGES, ObstacleType, OBSTACLE_MESSAGES, TargetType, TARGET_CONFIG, TARGET_MESSAGES, WHEEL_MESSAGES } from './constants';
 import { ROAST_MESSAGES, L33T_MESSAGES } from './messages';
+import { EventEmitter } from './event-emitter';
+import { GameEvents, ActivePowerUpStatus, AmmoStatus, BowStatus, LevelStatus, ReplayStatus, RunEndReason } from './game-events';
+import { HighScoreEntry } from './high-scores';
+import { DirectorStatus } from './difficulty-director';
+import { WheelStatus } from './wheel-motor';
+import { WindStatus } from './wind';
+import { LEVELS, getLevel } from './levels';
+import { TimeOfDay } from './day-night';
+import { DEFAULT_ENVIRONMENT_ID, ENVIRONMENTS, HudPalette, getEnvironment } from './environments';
+import { LevelProgress } from './level-progress';
 
 export class UIManager {
   private score = 0;
   private shotsFired = 0;
   private shotsHit = 0;
+  private activePowerUps: ActivePowerUpStatus[] = [];
+  
+  // Per-run tallies for the results screen
+  private bestCombo = 0;
+  private targetsHit: Partial<Record<TargetType, number>> = {};
+  private powerUpsUsed = 0;
+  private obstaclesHit = 0;
+  private runEndReason: RunEndReason = 'quit';
+  private watchingReplay = false;
+  // Loaded runs have no recording to save, their inputs before the save are unknown
+  private loadedFromSave = false;
+  private state = GameState.BOOT;
+  private difficulty = Difficulty.NORMAL;
+  private highScore: { best: HighScoreEntry | null; isNew: boolean } | null = null;
+  private directorStatus: DirectorStatus | null = null;
+  private showDirectorOverlay = false;
+  // Level select highlight and the outcome of the last level run, for the results screen
+  private levelProgress: LevelProgress | null = null;
+  private selectedLevelId = LEVELS[0].id;
+  private levelResult: GameEvents['levelEnded'] | null = null;
+  private environmentId = DEFAULT_ENVIRONMENT_ID;
+  private dayNightCycle = false;
+  private aimGuide = true;
+  private limitedAmmo = false;
 
   constructor() {
     this.createUI();
     this.injectCSS();
+    this.applyPalette(getEnvironment(DEFAULT_ENVIRONMENT_ID)!.hud);
+  }
+
+  // Wires the HUD to gameplay events; the game itself never calls into the UI
+  public subscribe(events: EventEmitter<GameEvents>): void {
+    events.on('stateChanged', ({ current }) => {
+      this.state = current;
+      this.showStateScreen(current);
+    });
+    events.on('difficultyChanged', ({ difficulty }) => {
+      this.difficulty = difficulty;
+      this.showDifficulty(difficulty);
+      if (this.state === GameState.TITLE) {
+        this.showStateScreen(GameState.TITLE);
+      }
+    });
+    events.on('environmentChanged', ({ environmentId }) => {
+      this.environmentId = environmentId;
+      this.applyPalette(getEnvironment(environmentId)!.hud);
+      if (this.state === GameState.TITLE) {
+        this.showStateScreen(GameState.TITLE);
+      }
+    });
+    events.on('dayNightChanged', ({ enabled }) => {
+      this.dayNightCycle = enabled;
+      if (this.state === GameState.TITLE) {
+        this.showStateScreen(GameState.TITLE);
+      }
+    });
+    events.on('aimGuideChanged', ({ enabled }) => {
+      this.aimGuide = enabled;
+      if (this.state === GameState.TITLE) {
+        this.showStateScreen(GameState.TITLE);
+      }
+    });
+    events.on('limitedAmmoChanged', ({ enabled }) => {
+      this.limitedAmmo = enabled;
+      if (this.state === GameState.TITLE) {
+        this.showStateScreen(GameState.TITLE);
+      }
+    });
+    events.on('runStarted', ({ seed, difficulty, replay }) => {
+      this.watchingReplay = replay;
+      this.levelResult = null;
+      this.loadedFromSave = false;
+      this.difficulty = difficulty;
+      this.resetRun(seed);
+    });
+    events.on('snapshotLoaded', state => {
+      this.loadedFromSave = true;
+      this.restoreRun(state);
+    });
+    events.on('runEnded', ({ reason }) => this.runEndReason = reason);
+    events.on('levelSelected', ({ levelId }) => {
+      this.selectedLevelId = levelId;
+      if (this.state === GameState.LEVEL_SELECT) {
+        this.showStateScreen(GameState.LEVEL_SELECT);
+      }
+    });
+    events.on('levelEnded', result => this.levelResult = result);
+    events.on('shotFired', () => this.incrementShotsFired());
+    events.on('arrowTypeChanged', ({ type }) => this.updateQuiver(type));
+    events.on('scoreChanged', ({ score }) => this.updateScore(score));
+    events.on('targetHit', ({ type, points, chained }) => {
+      this.targetsHit[type] = (this.targetsHit[type] ?? 0) + 1;
+      
+      // Chain explosions score, but they aren't shots the player landed
+      if (chained) return;
+      this.incrementShotsHit();
+      this.showTargetHit(TARGET_MESSAGES.HIT[type], type, points);
+    });
+    events.on('arrowBlocked', ({ part, deflected }) => {
+      this.showWheelBlock(deflected ? WHEEL_MESSAGES.DEFLECTED : WHEEL_MESSAGES.BLOCKED[part], deflected);
+    });
+    events.on('targetSpawned', ({ type }) => {
+      // Only special targets announce themselves
+      if (type in TARGET_MESSAGES.SPAWN) {
+        this.showTargetSpawn(TARGET_MESSAGES.SPAWN[type as keyof typeof TARGET_MESSAGES.SPAWN], type);
+      }
+    });
+    events.on('comboChanged', ({ count, multiplier }) => {
+      this.bestCombo = Math.max(this.bestCombo, count);
+      if (count > 1 && count <= TARGET_MESSAGES.COMBO.length) {
+        this.showComboMessage(TARGET_MESSAGES.COMBO[count - 2], count);
+      }
+      this.updateComboDisplay(count, multiplier);
+    });
+    events.on('mysteryRevealed', ({ message }) => this.showMysteryReveal(message));
+    events.on('powerUpPicked', ({ type }) => {
+      this.powerUpsUsed++;
+      this.showPowerUpMessage(POWERUP_MESSAGES.PICKUP[type], type);
+    });
+    events.on('powerUpExpired', ({ type }) => this.showPowerUpMessage(POWERUP_MESSAGES.EXPIRE[type], type));
+    events.on('obstacleWarning', ({ type }) => this.showObstacleWarning(OBSTACLE_MESSAGES.WARNING[type], type));
+    events.on('obstacleStunned', ({ type }) => this.showNotice(OBSTACLE_MESSAGES.STUNNED[type]));
+    events.on('obstacleHit', ({ type }) => {
+      this.obstaclesHit++;
+      this.showObstacleCollision(OBSTACLE_MESSAGES.COLLISION[type], type);
+    });
+    events.on('healthChanged', ({ health, maxHealth, delta }) => this.updateHealth(health, maxHealth, delta));
+    events.on('stunStart', () => this.showStunEffect());
+    events.on('stunEnd', () => this.hideStunEffect());
+    events.on('directorUpdated', status => {
+      this.directorStatus = status;
+      this.updateDirectorOverlay();
+    });
+    events.on('frameRendered', ({ wheel, activePowerUps, timeRemaining, level, replay, timeOfDay, wind, bow, ammo }) => {
+      this.updateRPM(wheel);
+      this.updateActivePowerUps(activePowerUps);
+      this.updateCountdown(timeRemaining);
+      this.updateLevelGoals(level);
+      this.updateReplayBar(replay);
+      this.updateTimeOfDay(timeOfDay);
+      this.updateWind(wind);
+      this.updateDrawMeter(bow);
+      this.updateAmmo(ammo);
+    });
   }
 
   // Helper method to apply common DOM styles
@@ -242,6 +393,10 @@ export class UIManager {
     });
     uiContainer.innerHTML = `
       <div id="score">Score: 0</div>
+      <div id="health" style="margin-top: 5px; font-size: 24px; letter-spacing: 2px;"></div>
+      <div id="difficulty" style="font-size: 14px;"></div>
+      <div id="seed" style="font-size: 12px; opacity: 0.7;"></div>
+      <div id="time-of-day" style="font-size: 14px; display: none;"></div>
       <div style="margin-top: 20px; font-size: 14px;">
         <div>Controls:</div>
         <div>A/D: Move left/right</div>
@@ -297,14 +452,14 @@ export class UIManager {
       width: '250px',
       height: '150px',
       background: UI_STYLES.CONTAINER_BG,
-      border: '2px solid #00ff00',
+      border: '2px solid var(--hud-accent)',
       borderRadius: '10px',
-      boxShadow: '0 0 20px rgba(0,255,0,0.5), inset 0 0 20px rgba(0,255,0,0.2)',
+      boxShadow: '0 0 20px var(--hud-glow), inset 0 0 20px var(--hud-glow)',
       padding: '15px'
     });
     
     rpmContainer.innerHTML = `
-      <div style="color: #00ff00; font-size: 12px; text-transform: uppercase; letter-spacing: 2px; margin-bottom: 10px;">
+      <div style="color: var(--hud-accent); font-size: 12px; text-transform: uppercase; letter-spacing: 2px; margin-bottom: 10px;">
         [[ WHEEL RPM ]]
       </div>
       <div id="rpm-display" style="font-size: 48px; color: #00ff00; text-shadow: 0 0 10px #00ff00, 0 0 20px #00ff00; font-weight: bold; text-align: center;">
@@ -317,8 +472,8 @@ export class UIManager {
       </div>
       <div style="display: flex; justify-content: space-between; margin-top: 5px; font-size: 10px; color: #00ff00;">
         <span>0</span>
-        <span style="color: #ffff00;">25</span>
-        <span style="color: #ff0000;">50</span>
+        <span style="color: #ffff00;">${WHEEL_CONFIG.DANGER_RPM}</span>
+        <span style="color: #ff0000;">${WHEEL_CONFIG.MAX_RPM}</span>
       </div>
     `;
     
@@ -340,6 +495,26 @@ export class UIManager {
     warningText.innerHTML = '⚠️ DANGER ZONE ⚠️';
     document.body.appendChild(warningText);
     
+    // Wind indicator under the RPM gauge: the arrow shows where the wind blows, seen from above
+    const windIndicator = this.createUIContainer({
+      top: '200px',
+      right: '10px',
+      width: '250px',
+      background: UI_STYLES.CONTAINER_BG,
+      border: '2px solid var(--hud-accent)',
+      borderRadius: '10px',
+      padding: '10px 15px',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'space-between'
+    }, 'wind-indicator');
+    windIndicator.innerHTML = `
+      <div style="color: var(--hud-accent); font-size: 12px; text-transform: uppercase; letter-spacing: 2px;">[[ W1ND ]]</div>
+      <div id="wind-arrow" style="font-size: 28px; color: #ffffff;">➤</div>
+      <div id="wind-strength" style="font-size: 20px; font-weight: bold; min-width: 60px; text-align: right;">0.0</div>
+    `;
+    document.body.appendChild(windIndicator);
+    
     // Create l33t congratulatory message container
     const congratsContainer = this.createUIContainer({
       top: '30%',
@@ -364,6 +539,438 @@ export class UIManager {
     }, 'congrats-container');
     congratsContainer.innerHTML = '<span class="congrats-text"></span>';
     document.body.appendChild(congratsContainer);
+    
+    // Countdown for timed runs, under the K/D panel
+    const countdown = this.createUIContainer({
+      top: '160px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      fontSize: '42px',
+      fontWeight: 'bold',
+      color: '#00ffff',
+      textShadow: '0 0 10px #00ffff, 0 0 20px #00ffff',
+      letterSpacing: '4px',
+      display: 'none'
+    }, 'countdown');
+    document.body.appendChild(countdown);
+    
+    // Level goal progress, under the countdown
+    const levelGoals = this.createUIContainer({
+      top: '215px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      fontSize: '18px',
+      color: '#ffffff',
+      textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
+      letterSpacing: '2px',
+      whiteSpace: 'nowrap',
+      display: 'none'
+    }, 'level-goals');
+    document.body.appendChild(levelGoals);
+    
+    // Transport bar while watching a replay
+    const replayBar = this.createUIContainer({
+      bottom: '20px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      width: '500px',
+      background: UI_STYLES.CONTAINER_BG,
+      border: '2px solid #00ffff',
+      padding: '10px 15px',
+      color: '#00ffff',
+      fontSize: '14px',
+      textAlign: 'center',
+      display: 'none'
+    }, 'replay-bar');
+    document.body.appendChild(replayBar);
+    
+    // Draw meter, only while the bow is drawn
+    const drawMeter = this.createUIContainer({
+      bottom: '150px',
+      left: '50%',
+      transform: 'translateX(-50%)',
+      width: '220px',
+      textAlign: 'center',
+      display: 'none'
+    }, 'draw-meter');
+    drawMeter.innerHTML = `
+      <div id="draw-label" style="font-size: 12px; letter-spacing: 2px; margin-bottom: 4px; text-shadow: 0 0 10px currentColor;">DR4W</div>
+      <div style="background: #111; height: 10px; border: 1px solid var(--hud-accent);">
+        <div id="draw-fill" style="height: 100%; width: 0%;"></div>
+      </div>
+    `;
+    document.body.appendChild(drawMeter);
+    
+    // Quiver, with the arrow on the string lit up
+    const quiver = this.createUIContainer({
+      bottom: '10px',
+      right: '10px',
+      background: UI_STYLES.CONTAINER_BG,
+      border: '2px solid var(--hud-accent)',
+      padding: '8px 12px',
+      fontSize: '14px',
+      lineHeight: '1.6',
+      letterSpacing: '1px'
+    }, 'quiver');
+    quiver.innerHTML = `
+      <div id="ammo-count" style="display: none; margin-bottom: 6px; padding-bottom: 6px; border-bottom: 1px solid var(--hud-accent);"></div>
+      <div id="quiver-types"></div>
+    `;
+    document.body.appendChild(quiver);
+    this.updateQuiver(ArrowType.BROADHEAD);
+    
+    // Full-screen overlay for title, pause and game over
+    const stateScreen = this.createUIContainer({
+      top: '0',
+      left: '0',
+      width: '100%',
+      height: '100%',
+      display: 'none',
+      alignItems: 'center',
+      justifyContent: 'center',
+      flexDirection: 'column',
+      background: 'rgba(0,0,0,0.7)',
+      color: 'var(--hud-accent)',
+      textAlign: 'center',
+      textTransform: 'uppercase',
+      zIndex: '2000'
+    }, 'state-screen');
+    document.body.appendChild(stateScreen);
+  }
+
+  // Swaps the overlay to match the game state; nothing covers the field while playing
+  public showStateScreen(state: GameState): void {
+    const stateScreen = document.getElementById('state-screen');
+    if (!stateScreen) return;
+    
+    const title = (text: string, color: string) => `
+      <div style="font-size: 64px; font-weight: bold; letter-spacing: 8px; color: ${color}; text-shadow: ${UI_STYLES.L33T_TEXT_SHADOW};">
+        ${text}
+      </div>
+    `;
+    const hint = (text: string) => `
+      <div style="margin-top: 15px; font-size: 18px; letter-spacing: 3px; animation: pulse 1s ease-in-out infinite;">
+        ${text}
+      </div>
+    `;
+    
+    switch (state) {
+      case GameState.TITLE:
+        stateScreen.innerHTML = `
+          ${title('BL3D4', 'var(--hud-accent)')}
+          <div style="margin-top: 10px; font-size: 16px; letter-spacing: 4px; color: #ffff00;">
+            || SH00T TH3 SP1NN1NG WH33L ||
+          </div>
+          ${this.renderDifficultyPicker()}
+          ${this.renderEnvironmentPicker()}
+          ${this.renderToggles()}
+          ${hint('3NT3R/CL1CK: CL4SS1C | T: 60S 4RC4D3 | M: L3V3LS | L: L04D')}
+        `;
+        break;
+      case GameState.LEVEL_SELECT:
+        stateScreen.innerHTML = `
+          ${title('L3V3LS', 'var(--hud-accent)')}
+          ${this.renderLevelSelect()}
+          ${hint('↑/↓: CH00S3 | 3NT3R/CL1CK: PL4Y | 3SC: B4CK')}
+        `;
+        break;
+      case GameState.PAUSED:
+        // Timers are frozen, so the last snapshot of power-ups stays accurate for the whole pause
+        stateScreen.innerHTML = `
+          ${title('P4US3D', '#ffff00')}
+          <div style="margin-top: 20px; font-size: 28px; color: #ffffff;">SC0R3: ${this.score}</div>
+          ${this.activePowerUps.length > 0 ? `
+            <div style="margin-top: 20px; width: 250px; text-align: left;">
+              ${this.renderPowerUpList(this.activePowerUps)}
+            </div>
+          ` : ''}
+          ${hint('3SC/P: R3SUM3 | S: S4V3 | R: R3ST4RT | Q: QU1T')}
+        `;
+        break;
+      case GameState.GAME_OVER:
+        stateScreen.innerHTML = `
+          ${this.renderResultsTitle(title)}
+          ${this.renderResults()}
+          ${hint(this.watchingReplay || this.loadedFromSave
+            ? `3NT3R: ${this.levelResult ? 'L3V3LS' : 'T1TL3'} | R: PL4Y`
+            : `3NT3R: ${this.levelResult ? 'L3V3LS' : 'T1TL3'} | R: R3ST4RT | S: S4V3 R3PL4Y`)}
+        `;
+        break;
+      default:
+        stateScreen.innerHTML = '';
+    }
+    
+    stateScreen.style.display = stateScreen.innerHTML ? 'flex' : 'none';
+  }
+
+  private renderResultsTitle(title: (text: string, color: string) => string): string {
+    switch (this.runEndReason) {
+      case 'timeUp':
+        return title('T1M3\'S UP', '#00ffff');
+      case 'levelComplete':
+        return title('L3V3L CL34R', '#00ff00') + this.renderStars(this.levelResult?.stars ?? 0, '40px');
+      case 'levelFailed':
+        return title('L3V3L F41L3D', '#ff0000');
+      default:
+        return title('G4M3 0V3R', '#ff0000');
+    }
+  }
+
+  private renderStars(stars: number, size: string): string {
+    return `<span style="font-size: ${size}; color: #FFD700; letter-spacing: 4px;">${'★'.repeat(stars)}<span style="color: #555555;">${'★'.repeat(3 - stars)}</span></span>`;
+  }
+
+  // Every level with its best stars, or a lock and the stars it needs; the highlighted one shows its goals
+  private renderLevelSelect(): string {
+    const totalStars = this.levelProgress?.getTotalStars() ?? 0;
+    const rows = LEVELS.map(level => {
+      const selected = level.id === this.selectedLevelId;
+      const unlocked = this.levelProgress ? this.levelProgress.isUnlocked(level) : level.unlockStars === 0;
+      const record = this.levelProgress?.getRecord(level.id);
+      const status = unlocked
+        ? this.renderStars(record?.stars ?? 0, '18px')
+        : `<span style="color: #888888;">🔒 ${level.unlockStars}★</span>`;
+      return `
+        <div style="display: flex; justify-content: space-between; gap: 40px; padding: 6px 12px; border: 2px solid ${selected ? 'var(--hud-accent)' : 'transparent'}; color: ${unlocked ? '#ffffff' : '#888888'};">
+          <span>${level.name}</span>${status}
+        </div>
+      `;
+    }).join('');
+    
+    const level = getLevel(this.selectedLevelId)!;
+    const environment = level.environment ? getEnvironment(level.environment) : undefined;
+    const record = this.levelProgress?.getRecord(level.id);
+    const goals = [
+      `${level.goals.timeLimit}S`,
+      level.goals.score !== undefined ? `SC0R3 ${level.goals.score}` : null,
+      level.goals.targetsCleared !== undefined ? `CL34R ${level.goals.targetsCleared} T4RG3TS` : null,
+      level.goals.score === undefined && level.goals.targetsCleared === undefined ? 'SURV1V3' : null
+    ].filter(goal => goal !== null).join(' | ');
+    
+    return `
+      <div style="margin-top: 10px; font-size: 16px; color: #FFD700;">★ ${totalStars}</div>
+      <div style="margin-top: 15px; min-width: 360px; font-size: 18px; background: ${UI_STYLES.CONTAINER_BG}; border: 2px solid var(--hud-accent); padding: 10px;">
+        ${rows}
+      </div>
+      <div style="margin-top: 15px; font-size: 14px; color: #ffffff; text-transform: none;">${level.description}</div>
+      ${environment ? `<div style="margin-top: 5px; font-size: 14px; color: var(--hud-accent);">${environment.icon} ${environment.name}</div>` : ''}
+      <div style="margin-top: 5px; font-size: 14px; color: #00ffff;">${goals}</div>
+      <div style="margin-top: 5px; font-size: 14px; color: #FFD700;">★★ ${level.starScores[0]} | ★★★ ${level.starScores[1]}${record ? ` | B3ST ${record.bestScore}` : ''}</div>
+    `;
+  }
+
+  // End-of-run summary; accuracy comes from the same counters as the K/D panel
+  private renderResults(): string {
+    const accuracy = this.shotsFired > 0 ? (this.shotsHit / this.shotsFired) * 100 : 0;
+    const row = (label: string, value: string | number, color = '#ffffff') => `
+      <div style="display: flex; justify-content: space-between; gap: 40px; margin-bottom: 6px; color: ${color};">
+        <span>${label}</span><span style="font-weight: bold;">${value}</span>
+      </div>
+    `;
+    const targetRows = Object.values(TargetType)
+      .filter(type => this.targetsHit[type])
+      .map(type => row(`${TARGET_CONFIG[type].ICON} ${TARGET_CONFIG[type].NAME}`, this.targetsHit[type]!, this.getTargetColor(type)))
+      .join('');
+    
+    const difficulty = DIFFICULTY_CONFIG[this.difficulty];
+    const highScoreRow = this.highScore?.isNew
+      ? `<div style="margin-top: 10px; font-size: 22px; color: #FFD700; animation: pulse 0.5s ease-in-out infinite;">|| N3W H1GH SC0R3 ||</div>`
+      : this.highScore?.best
+        ? `<div style="margin-top: 10px; font-size: 16px; color: #FFD700;">H1GH SC0R3: ${this.highScore.best.score}</div>`
+        : '';
+    
+    return `
+      <div style="margin-top: 20px; font-size: 32px; color: #ffffff;">SC0R3: ${this.score}</div>
+      <div style="margin-top: 5px; font-size: 16px; color: ${this.toHexColor(difficulty.COLOR)};">${difficulty.ICON} ${difficulty.NAME}</div>
+      ${highScoreRow}
+      <div style="margin-top: 15px; min-width: 360px; font-size: 16px; background: ${UI_STYLES.CONTAINER_BG}; border: 2px solid var(--hud-accent); padding: 15px;">
+        ${row('4CCUR4CY', `${this.shotsHit} / ${this.shotsFired} (${accuracy.toFixed(1)}%)`, '#ffff00')}
+        ${row('B3ST C0MB0', `x${this.bestCombo}`, '#FFD700')}
+        ${row('P0W3R-UPS US3D', this.powerUpsUsed, '#00ff00')}
+        ${row('0BST4CL3S H1T', this.obstaclesHit, '#ff0000')}
+        ${targetRows ? `<div style="margin: 10px 0 6px; color: var(--hud-accent); letter-spacing: 2px;">[[ T4RG3TS H1T ]]</div>${targetRows}` : ''}
+      </div>
+    `;
+  }
+
+  // Title screen row of presets; the number keys choose between them
+  private renderDifficultyPicker(): string {
+    const options = Object.values(Difficulty).map((difficulty, index) => {
+      const config = DIFFICULTY_CONFIG[difficulty];
+      const selected = difficulty === this.difficulty;
+      return `
+        <span style="padding: 6px 12px; border: 2px solid ${selected ? this.toHexColor(config.COLOR) : 'transparent'}; color: ${selected ? this.toHexColor(config.COLOR) : '#888888'};">
+          ${index + 1}: ${config.ICON} ${config.NAME}
+        </span>
+      `;
+    }).join('');
+    
+    return `<div style="margin-top: 25px; display: flex; gap: 10px; font-size: 16px;">${options}</div>`;
+  }
+
+  // Stars and unlocks for the level select screen; main keeps it up to date as levels are played
+  public setLevelProgress(progress: LevelProgress): void {
+    this.levelProgress = progress;
+    if (this.state === GameState.LEVEL_SELECT) {
+      this.showStateScreen(GameState.LEVEL_SELECT);
+    }
+  }
+
+  // Title screen line for the scenery; E cycles through them
+  private renderEnvironmentPicker(): string {
+    const options = ENVIRONMENTS.map(environment => {
+      const selected = environment.id === this.environmentId;
+      return `<span style="color: ${selected ? environment.hud.accent : '#888888'};">${environment.icon} ${environment.name}</span>`;
+    }).join(' | ');
+    
+    return `<div style="margin-top: 15px; font-size: 14px;">E: ${options}</div>`;
+  }
+
+  // Title screen switches: N for the day/night cycle, G for the aim guide
+  private renderToggles(): string {
+    const toggle = (on: boolean) => on ? '<span style="color: var(--hud-accent);">0N</span>' : '<span style="color: #888888;">0FF</span>';
+    // Some presets hide the guide whatever the setting says
+    const guideNote = AIM_GUIDE_CONFIG.LENGTH[this.difficulty] === 0
+      ? ` <span style="color: #888888;">(N0T 0N ${DIFFICULTY_CONFIG[this.difficulty].NAME})</span>`
+      : '';
+    return `<div style="margin-top: 8px; font-size: 14px;">N: D4Y/N1GHT ${toggle(this.dayNightCycle)} | G: 41M GU1D3 ${toggle(this.aimGuide)}${guideNote} | Q: L1M1T3D 4MM0 ${toggle(this.limitedAmmo)}</div>`;
+  }
+
+  // HUD accents are CSS variables, so panels built before the change pick up the new colours too
+  private applyPalette(palette: HudPalette): void {
+    const root = document.documentElement.style;
+    root.setProperty('--hud-accent', palette.accent);
+    root.setProperty('--hud-accent-dark', palette.accentDark);
+    root.setProperty('--hud-glow', palette.glow);
+  }
+
+  // Called right before the results screen shows; replays don't submit scores, so they show none
+  public showHighScore(best: HighScoreEntry | null, isNew: boolean): void {
+    this.highScore = { best, isNew };
+  }
+
+  private showDifficulty(difficulty: Difficulty): void {
+    const difficultyElement = document.getElementById('difficulty');
+    if (difficultyElement) {
+      const config = DIFFICULTY_CONFIG[difficulty];
+      difficultyElement.textContent = `${config.ICON} ${config.NAME}`;
+      difficultyElement.style.color = this.toHexColor(config.COLOR);
+    }
+  }
+
+  private toHexColor(color: number): string {
+    return `#${color.toString(16).padStart(6, '0')}`;
+  }
+
+  // Clears every per-run readout so a restart doesn't inherit the last run's numbers
+  private resetRun(seed: number): void {
+    this.shotsFired = 0;
+    this.shotsHit = 0;
+    this.bestCombo = 0;
+    this.targetsHit = {};
+    this.powerUpsUsed = 0;
+    this.obstaclesHit = 0;
+    this.runEndReason = 'quit';
+    this.highScore = null;
+    this.updateScore(0);
+    this.updateKDDisplay();
+    this.updateComboDisplay(0, 1);
+    this.updateActivePowerUps([]);
+    this.updateQuiver(ArrowType.BROADHEAD);
+    this.hideStunEffect();
+    this.showSeed(seed);
+    this.showDifficulty(this.difficulty);
+    
+    const roastElement = document.getElementById('roast-message');
+    if (roastElement) {
+      roastElement.textContent = '|| W41T1NG 4 U 2 M1SS ||';
+    }
+  }
+
+  // Picks up the counters of a loaded game; the results breakdown only counts what happens after loading
+  private restoreRun(state: GameEvents['snapshotLoaded']): void {
+    this.shotsFired = state.shotsFired;
+    this.shotsHit = state.shotsHit;
+    this.bestCombo = state.comboCount;
+    this.activePowerUps = state.activePowerUps;
+    this.updateScore(state.score);
+    this.updateKDDisplay();
+    this.updateComboDisplay(state.comboCount, state.comboMultiplier);
+    this.updateActivePowerUps(state.activePowerUps);
+  }
+
+  // Short confirmation for actions outside the game itself, like saving
+  public showNotice(message: string): void {
+    let notice = document.getElementById('notice');
+    if (!notice) {
+      notice = this.createUIContainer({
+        bottom: '80px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        fontSize: '20px',
+        color: '#00ff00',
+        textShadow: UI_STYLES.L33T_TEXT_SHADOW,
+        letterSpacing: '3px',
+        zIndex: '1001',
+        transition: 'opacity 0.3s ease-out'
+      }, 'notice');
+      document.body.appendChild(notice);
+    }
+    
+    notice.textContent = message;
+    notice.style.opacity = '1';
+    setTimeout(() => notice.style.opacity = '0', 1500);
+  }
+
+  // Debug readout of what the adaptive director measured and how it's steering the run
+  public toggleDirectorOverlay(): void {
+    this.showDirectorOverlay = !this.showDirectorOverlay;
+    this.updateDirectorOverlay();
+  }
+
+  private updateDirectorOverlay(): void {
+    let overlay = document.getElementById('director-overlay');
+    if (!overlay) {
+      overlay = this.createUIContainer({
+        bottom: '10px',
+        left: '10px',
+        background: 'rgba(0,0,0,0.8)',
+        border: '1px solid #00ff00',
+        padding: '10px',
+        fontSize: '12px',
+        lineHeight: '1.5',
+        whiteSpace: 'pre',
+        color: '#00ff00',
+        zIndex: '1002'
+      }, 'director-overlay');
+      document.body.appendChild(overlay);
+    }
+    
+    overlay.style.display = this.showDirectorOverlay ? 'block' : 'none';
+    if (!this.showDirectorOverlay) return;
+    
+    const status = this.directorStatus;
+    if (!status || !status.enabled) {
+      overlay.textContent = 'D1R3CT0R: 0FF';
+      return;
+    }
+    
+    const percent = (value: number) => `${Math.round(value * 100)}%`;
+    const scale = (value: number) => `x${value.toFixed(2)}`;
+    const trend = status.level > 0 ? '▲ PUSHING' : status.level < 0 ? '▼ EASING' : '■ STEADY';
+    overlay.style.color = status.level > 0 ? '#ff8800' : status.level < 0 ? '#00ccff' : '#00ff00';
+    overlay.textContent = [
+      `D1R3CT0R ${trend}`,
+      `level        ${status.level.toFixed(2)}`,
+      `performance  ${status.performance.toFixed(2)}`,
+      `accuracy     ${status.accuracy === null ? '--' : percent(status.accuracy)}`,
+      `avg combo    ${status.averageCombo.toFixed(1)}`,
+      `stuns/min    ${status.stunRate.toFixed(1)}`,
+      `score/sec    ${status.scoreRate.toFixed(1)}`,
+      `wheel speed  ${scale(status.wheelSpeedScale)}`,
+      `obstacles    ${scale(status.obstacleChanceScale)} chance, ${scale(status.obstacleIntervalScale)} interval`,
+      `specials     ${scale(status.specialTargetScale)}`
+    ].join('\n');
   }
 
   updateScore(score: number): void {
@@ -374,6 +981,185 @@ export class UIManager {
     }
   }
 
+  updateHealth(health: number, maxHealth: number, delta: number): void {
+    const healthElement = document.getElementById('health');
+    if (!healthElement) return;
+    
+    healthElement.textContent = '❤️'.repeat(health) + '🖤'.repeat(maxHealth - health);
+    
+    // Shake the hearts when one is lost
+    if (delta < 0) {
+      healthElement.style.animation = 'none';
+      healthElement.offsetHeight;
+      healthElement.style.animation = 'shake 0.3s ease-in-out';
+    }
+  }
+
+  updateCountdown(timeRemaining: number | null): void {
+    const countdown = document.getElementById('countdown');
+    if (!countdown) return;
+    
+    if (timeRemaining === null) {
+      countdown.style.display = 'none';
+      return;
+    }
+    
+    const seconds = Math.ceil(timeRemaining / 1000);
+    countdown.style.display = 'block';
+    countdown.textContent = `⏱ ${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+    
+    // Hurry the player up for the final seconds
+    const color = timeRemaining <= ARCADE_CONFIG.COUNTDOWN_WARNING ? '#ff0000' : '#00ffff';
+    countdown.style.color = color;
+    countdown.style.textShadow = `0 0 10px ${color}, 0 0 20px ${color}`;
+    countdown.style.animation = timeRemaining <= ARCADE_CONFIG.COUNTDOWN_WARNING ? 'pulse 0.5s ease-in-out infinite' : '';
+  }
+
+  updateLevelGoals(level: LevelStatus | null): void {
+    const levelGoals = document.getElementById('level-goals');
+    if (!levelGoals) return;
+    
+    if (!level) {
+      levelGoals.style.display = 'none';
+      return;
+    }
+    
+    const goal = (label: string, value: number, target: number) =>
+      `<span style="color: ${value >= target ? '#00ff00' : '#ffffff'};">${label} ${value}/${target}</span>`;
+    const goals = [
+      level.scoreGoal !== null ? goal('SC0R3', level.score, level.scoreGoal) : null,
+      level.targetsGoal !== null ? goal('T4RG3TS', level.targetsCleared, level.targetsGoal) : null
+    ].filter(text => text !== null);
+    
+    levelGoals.style.display = 'block';
+    levelGoals.innerHTML = `${getLevel(level.levelId)?.name ?? ''} | ${goals.length > 0 ? goals.join(' | ') : 'SURV1V3'}`;
+  }
+
+  updateDrawMeter(bow: BowStatus | null): void {
+    const meter = document.getElementById('draw-meter');
+    const label = document.getElementById('draw-label');
+    const fill = document.getElementById('draw-fill');
+    if (!meter || !label || !fill) return;
+    
+    if (!bow) {
+      meter.style.display = 'none';
+      return;
+    }
+    
+    // Yellow while drawing, green at full draw, red once the aim starts to shake
+    const color = bow.tremble > 0 ? '#ff0000' : bow.charge >= 1 ? '#00ff00' : '#ffff00';
+    meter.style.display = 'block';
+    label.textContent = bow.tremble > 0 ? 'SH4KY!' : bow.charge >= 1 ? 'FULL DR4W' : 'DR4W';
+    label.style.color = color;
+    fill.style.width = `${bow.charge * 100}%`;
+    fill.style.background = color;
+    label.style.animation = bow.tremble > 0 ? 'shake 0.3s ease-in-out infinite' : '';
+  }
+
+  updateWind(wind: WindStatus): void {
+    const arrow = document.getElementById('wind-arrow');
+    const strength = document.getElementById('wind-strength');
+    if (!arrow || !strength) return;
+    
+    if (wind.maxStrength === 0) {
+      arrow.style.visibility = 'hidden';
+      strength.textContent = 'C4LM';
+      strength.style.color = '#888888';
+      return;
+    }
+    
+    // Screen down is towards the camera (+z), so the angle maps straight onto a clockwise rotation
+    arrow.style.visibility = 'visible';
+    arrow.style.transform = `rotate(${(wind.direction * 180) / Math.PI}deg)`;
+    const share = wind.strength / WIND_CONFIG.MAX_STRENGTH;
+    strength.textContent = wind.strength.toFixed(1);
+    strength.style.color = share > 1 ? '#ff0000' : share > 0.6 ? '#ffff00' : '#00ff00';
+  }
+
+  updateQuiver(selected: ArrowType): void {
+    const types = document.getElementById('quiver-types');
+    if (!types) return;
+    
+    types.innerHTML = Object.values(ArrowType).map((type, index) => {
+      const config = ARROW_CONFIG[type];
+      const style = type === selected ? 'color: var(--hud-accent); text-shadow: 0 0 10px currentColor;' : 'color: #666;';
+      return `<div style="${style}">[${index + 1}] ${config.ICON} ${config.NAME}</div>`;
+    }).join('');
+  }
+
+  // Arrows at hand over the quiver's capacity, with the spares in the saddle bag after the plus
+  updateAmmo(ammo: AmmoStatus | null): void {
+    const element = document.getElementById('ammo-count');
+    if (!element) return;
+    
+    if (!ammo) {
+      element.style.display = 'none';
+      return;
+    }
+    
+    element.style.display = 'block';
+    let status = '';
+    if (ammo.reload !== null) {
+      const filled = Math.round(ammo.reload * 8);
+      status = `R3L04D1NG ${'▓'.repeat(filled)}${'░'.repeat(8 - filled)}`;
+    } else if (ammo.quiver === 0) {
+      status = ammo.spares > 0 ? 'QU1V3R 3MPTY! R T0 R3L04D' : '0UT 0F 4RR0WS!';
+    }
+    const color = ammo.quiver === 0 ? '#ff0000' : ammo.quiver <= ammo.capacity / 4 ? '#ffff00' : 'var(--hud-accent)';
+    element.innerHTML = `
+      <div style="color: ${color};">🏹 ${ammo.quiver}/${ammo.capacity} <span style="color: #888888;">+${ammo.spares}</span></div>
+      ${status ? `<div style="color: ${color}; font-size: 12px;">${status}</div>` : ''}
+    `;
+  }
+
+  updateTimeOfDay(timeOfDay: TimeOfDay | null): void {
+    const element = document.getElementById('time-of-day');
+    if (!element) return;
+    
+    if (!timeOfDay) {
+      element.style.display = 'none';
+      return;
+    }
+    
+    const labels = { dawn: '🌄 D4WN', day: '☀️ D4Y', dusk: '🌇 DUSK', night: '🌙 N1GHT' };
+    element.style.display = 'block';
+    element.textContent = labels[timeOfDay.period];
+  }
+
+  updateReplayBar(replay: ReplayStatus | null): void {
+    const replayBar = document.getElementById('replay-bar');
+    if (!replayBar) return;
+    
+    if (!replay) {
+      replayBar.style.display = 'none';
+      return;
+    }
+    
+    const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+    const progress = replay.duration > 0 ? Math.min(100, (replay.time / replay.duration) * 100) : 0;
+    
+    replayBar.style.display = 'block';
+    replayBar.innerHTML = `
+      <div style="display: flex; justify-content: space-between; letter-spacing: 2px; margin-bottom: 6px;">
+        <span>${replay.paused ? '⏸' : '▶'} R3PL4Y</span>
+        <span>${formatTime(replay.time)} / ${formatTime(replay.duration)}</span>
+        <span>${replay.speed}x</span>
+      </div>
+      <div style="background: #111; height: 6px; border: 1px solid #00ffff;">
+        <div style="height: 100%; width: ${progress}%; background: #00ffff;"></div>
+      </div>
+      <div style="margin-top: 6px; font-size: 11px; opacity: 0.8;">SP4C3: P4US3 | ←/→: S33K | -/+: SP33D | 3SC: ST0P</div>
+    `;
+  }
+
+  // Shown so players can share or report a run by its seed
+  showSeed(seed: number): void {
+    const seedElement = document.getElementById('seed');
+    if (seedElement) {
+      seedElement.textContent = `Seed: ${seed}`;
+    }
+  }
+
   incrementShotsFired(): void {
     this.shotsFired++;
     this.updateKDDisplay();
@@ -459,12 +1245,10 @@ export class UIManager {
     }
   }
 
-  updateRPM(wheelSpeed: number): void {
-    // Calculate RPM from wheel speed (radians per second to RPM)
-    // wheelSpeed is in rad/s, convert to rotations/minute: (rad/s) * (60s/min) / (2π rad/rotation)
-    const actualRPM = Math.abs(wheelSpeed * 60 / (2 * Math.PI));
+  updateRPM(wheel: WheelStatus): void {
     // Display RPM rounded to nearest integer
-    const displayRPM = Math.round(actualRPM);
+    const displayRPM = Math.round(wheel.rpm);
+    const inDanger = wheel.zone !== 'normal';
     
     // Update RPM display
     const rpmDisplay = document.getElementById('rpm-display');
@@ -472,29 +1256,22 @@ export class UIManager {
       // Pad with zeros for l33t look
       rpmDisplay.textContent = displayRPM.toString().padStart(4, '0');
       
-      // Change color based on RPM
-      if (displayRPM < 10) {
-        rpmDisplay.style.color = '#00ff00';
-        rpmDisplay.style.textShadow = '0 0 10px #00ff00, 0 0 20px #00ff00';
-        rpmDisplay.classList.remove('danger');
-      } else if (displayRPM < 20) {
-        rpmDisplay.style.color = '#ffff00';
-        rpmDisplay.style.textShadow = '0 0 10px #ffff00, 0 0 20px #ffff00';
-        rpmDisplay.classList.remove('danger');
-      } else {
-        rpmDisplay.style.color = '#ff0000';
-        rpmDisplay.style.textShadow = '0 0 10px #ff0000, 0 0 20px #ff0000';
-        rpmDisplay.classList.add('danger');
-      }
+      // Green, yellow on the way up, red once the danger zone starts
+      const color = inDanger ? '#ff0000' : displayRPM < WHEEL_CONFIG.DANGER_RPM / 2 ? '#00ff00' : '#ffff00';
+      rpmDisplay.style.color = color;
+      rpmDisplay.style.textShadow = `0 0 10px ${color}, 0 0 20px ${color}`;
+      rpmDisplay.classList.toggle('danger', inDanger);
       
       // Update animation speed
-      rpmDisplay.style.animationDuration = displayRPM > 20 ? '0.2s' : '0.5s';
+      rpmDisplay.style.animationDuration = inDanger ? '0.2s' : '0.5s';
       
       // Show/hide warning text
       const warningText = document.getElementById('rpm-warning');
       if (warningText) {
-        warningText.style.display = displayRPM > 30 ? 'block' : 'none';
-        if (displayRPM > 30) {
+        const warning = this.getRPMWarning(wheel);
+        warningText.style.display = warning ? 'block' : 'none';
+        if (warning) {
+          warningText.textContent = warning;
           warningText.style.animation = 'pulse 0.3s ease-in-out infinite';
         }
       }
@@ -503,10 +1280,21 @@ export class UIManager {
     // Update RPM bar
     const rpmBar = document.getElementById('rpm-bar');
     if (rpmBar) {
-      const percentage = Math.min(displayRPM / 50 * 100, 100);
+      const percentage = Math.min(wheel.rpm / WHEEL_CONFIG.MAX_RPM * 100, 100);
       rpmBar.style.width = percentage + '%';
     }
   }
+  
+  private getRPMWarning(wheel: WheelStatus): string | null {
+    if (wheel.failure === 'wobble') return '💥 0V3RSP33D 💥';
+    if (wheel.failure === 'brake') return '🛑 BR4K1NG 🛑';
+    if (wheel.zone === 'redline') {
+      return `🔥 R3DL1N3 x${wheel.scoreMultiplier} | ${Math.round(wheel.overspeed * 100)}% 🔥`;
+    }
+    if (wheel.zone === 'danger') return `⚠️ DANGER ZONE x${wheel.scoreMultiplier} ⚠️`;
+    return null;
+  }
+
 
   private showCongratsMessage(): void {
     const congratsContainer = document.getElementById('congrats-container');
@@ -626,10 +1414,16 @@ export class UIManager {
         return POWERUP_CONFIG.EXPLOSIVE_ARROWS;
       case PowerUpType.SCORE_MULTIPLIER:
         return POWERUP_CONFIG.SCORE_MULTIPLIER;
+      case PowerUpType.HEALTH:
+        return POWERUP_CONFIG.HEALTH;
+      case PowerUpType.QUIVER_REFILL:
+        return POWERUP_CONFIG.QUIVER_REFILL;
     }
   }
   
-  public updateActivePowerUps(activePowerUps: Array<{type: PowerUpType, remaining: number}>): void {
+  public updateActivePowerUps(activePowerUps: ActivePowerUpStatus[]): void {
+    this.activePowerUps = activePowerUps;
+    
     // Create or get active power-ups display
     let powerUpsDisplay = document.getElementById('active-powerups');
     if (!powerUpsDisplay) {
@@ -638,7 +1432,7 @@ export class UIManager {
         left: '10px',
         width: '250px',
         background: UI_STYLES.CONTAINER_BG,
-        border: '2px solid #00ff00',
+        border: '2px solid var(--hud-accent)',
         borderRadius: '10px',
         padding: '15px',
         display: activePowerUps.length > 0 ? 'block' : 'none'
@@ -653,7 +1447,13 @@ export class UIManager {
     
     powerUpsDisplay.style.display = 'block';
     powerUpsDisplay.innerHTML = `
-      <div style="color: #00ff00; font-size: 14px; text-transform: uppercase; letter-spacing: 2px; margin-bottom: 10px;">
+      ${this.renderPowerUpList(activePowerUps)}
+    `;
+  }
+  
+  private renderPowerUpList(activePowerUps: ActivePowerUpStatus[]): string {
+    return `
+      <div style="color: var(--hud-accent); font-size: 14px; text-transform: uppercase; letter-spacing: 2px; margin-bottom: 10px;">
         [[ 4CT1V3 P0W3R-UPS ]]
       </div>
       ${activePowerUps.map(powerUp => {
@@ -878,6 +1678,32 @@ export class UIManager {
     }, 1500);
   }
   
+  // Short call-out over the field when the wheel stops an arrow
+  public showWheelBlock(message: string, deflected: boolean): void {
+    let blockDisplay = document.getElementById('wheel-block');
+    if (!blockDisplay) {
+      blockDisplay = this.createUIContainer({
+        bottom: '50%',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        fontSize: '22px',
+        fontWeight: 'bold',
+        textShadow: '0 0 15px currentColor',
+        letterSpacing: '3px',
+        zIndex: '1000',
+        opacity: '0',
+        transition: 'opacity 0.2s ease-out',
+        pointerEvents: 'none'
+      }, 'wheel-block');
+      document.body.appendChild(blockDisplay);
+    }
+    
+    blockDisplay.style.color = deflected ? '#B0C4DE' : '#DEB887';
+    blockDisplay.textContent = message;
+    blockDisplay.style.opacity = '1';
+    setTimeout(() => blockDisplay.style.opacity = '0', 800);
+  }
+  
   private getTargetColor(type: TargetType): string {
     const colors: Record<TargetType, string> = {
       [TargetType.STANDARD]: '#FF0000',
@@ -0,0 +1,182 @@
+import { WHEEL_CONFIG } from './constants';
+import { GameClock } from './game-clock';
+
+export type WheelZone = 'normal' | 'danger' | 'redline';
+export type WheelFailurePhase = 'wobble' | 'brake';
+
+// Per-frame gauge values for the HUD
+export interface WheelStatus {
+  rpm: number;
+  zone: WheelZone;
+  overspeed: number; // 0..1, how close staying above the redline is to failing the wheel
+  failure: WheelFailurePhase | null;
+  scoreMultiplier: number;
+}
+
+// What changed during an update, for the game to act on and announce
+export type WheelMotorEvent =
+  | { type: 'zoneChanged'; zone: WheelZone }
+  | { type: 'failureStarted' }
+  | { type: 'targetsFlung' }
+  | { type: 'recovered' };
+
+export interface WheelMotorSnapshot {
+  speed: number;
+  startSpeed: number;
+  zone: WheelZone;
+  overspeedTime: number;
+  failure: { phase: WheelFailurePhase; startedAt: number; fromSpeed: number } | null;
+}
+
+const RPM_PER_RADIAN = 60 / (2 * Math.PI);
+
+export function toRPM(radiansPerSecond: number): number {
+  return Math.abs(radiansPerSecond * RPM_PER_RADIAN);
+}
+
+export function fromRPM(rpm: number): number {
+  return rpm / RPM_PER_RADIAN;
+}
+
+// Owns the wheel's speed: hits push it up, friction pulls it back towards the starting
+// speed, and holding it above the redline makes it wobble, fling its targets and brake.
+// Speeds are in radians per second; `scale` is the director's adjustment on top.
+export class WheelMotor {
+  private clock: GameClock;
+  private speed = 0;
+  private startSpeed = 0;
+  private zone: WheelZone = 'normal';
+  private overspeedTime = 0;
+  private failure: WheelMotorSnapshot['failure'] = null;
+
+  constructor(clock: GameClock) {
+    this.clock = clock;
+  }
+
+  public reset(startSpeed: number): void {
+    this.speed = startSpeed;
+    this.startSpeed = startSpeed;
+    this.zone = 'normal';
+    this.overspeedTime = 0;
+    this.failure = null;
+  }
+
+  public get isFailing(): boolean {
+    return this.failure !== null;
+  }
+
+  public getFailurePhase(): WheelFailurePhase | null {
+    return this.failure?.phase ?? null;
+  }
+
+  // Seconds into the current failure phase, for the wobble animation
+  public getFailureElapsed(): number {
+    return this.failure ? (this.clock.now() - this.failure.startedAt) / 1000 : 0;
+  }
+
+  public getSpeed(scale: number): number {
+    return Math.min(this.speed * scale, WHEEL_CONFIG.MAX_RPM / RPM_PER_RADIAN);
+  }
+
+  // A failing wheel ignores hits until it has braked
+  public speedUp(factor: number): void {
+    if (this.failure) return;
+    this.speed *= factor;
+  }
+
+  // The danger bonus only pays while the wheel is holding together
+  public getScoreMultiplier(): number {
+    if (this.failure) return 1;
+    if (this.zone === 'redline') return WHEEL_CONFIG.REDLINE_SCORE_MULTIPLIER;
+    if (this.zone === 'danger') return WHEEL_CONFIG.DANGER_SCORE_MULTIPLIER;
+    return 1;
+  }
+
+  public getStatus(scale: number): WheelStatus {
+    return {
+      rpm: toRPM(this.getSpeed(scale)),
+      zone: this.zone,
+      overspeed: Math.min(1, this.overspeedTime / WHEEL_CONFIG.OVERSPEED_TIME),
+      failure: this.getFailurePhase(),
+      scoreMultiplier: this.getScoreMultiplier()
+    };
+  }
+
+  public update(deltaTime: number, scale: number): WheelMotorEvent[] {
+    const events: WheelMotorEvent[] = [];
+    const currentTime = this.clock.now();
+
+    if (this.failure) {
+      this.updateFailure(currentTime, events);
+    } else {
+      const deceleration = WHEEL_CONFIG.DECELERATION / RPM_PER_RADIAN * deltaTime;
+      this.speed = Math.max(this.startSpeed, this.speed - deceleration);
+      // Hits past the maximum are wasted rather than stored up
+      this.speed = Math.min(this.speed, WHEEL_CONFIG.MAX_RPM / RPM_PER_RADIAN / scale);
+
+      if (toRPM(this.getSpeed(scale)) >= WHEEL_CONFIG.REDLINE_RPM) {
+        this.overspeedTime += deltaTime * 1000;
+        if (this.overspeedTime >= WHEEL_CONFIG.OVERSPEED_TIME) {
+          this.failure = { phase: 'wobble', startedAt: currentTime, fromSpeed: this.speed };
+          events.push({ type: 'failureStarted' });
+        }
+      } else {
+        this.overspeedTime = 0;
+      }
+    }
+
+    const zone = this.getZone(toRPM(this.getSpeed(scale)));
+    if (zone !== this.zone) {
+      this.zone = zone;
+      events.push({ type: 'zoneChanged', zone });
+    }
+    return events;
+  }
+
+  public toSnapshot(): WheelMotorSnapshot {
+    return {
+      speed: this.speed,
+      startSpeed: this.startSpeed,
+      zone: this.zone,
+      overspeedTime: this.overspeedTime,
+      failure: this.failure ? { ...this.failure } : null
+    };
+  }
+
+  public restoreSnapshot(snapshot: WheelMotorSnapshot): void {
+    this.speed = snapshot.speed;
+    this.startSpeed = snapshot.startSpeed;
+    this.zone = snapshot.zone;
+    this.overspeedTime = snapshot.overspeedTime;
+    this.failure = snapshot.failure ? { ...snapshot.failure } : null;
+  }
+
+  private updateFailure(currentTime: number, events: WheelMotorEvent[]): void {
+    const failure = this.failure!;
+    const elapsed = currentTime - failure.startedAt;
+
+    if (failure.phase === 'wobble') {
+      if (elapsed >= WHEEL_CONFIG.WOBBLE_DURATION) {
+        this.failure = { phase: 'brake', startedAt: currentTime, fromSpeed: this.speed };
+        events.push({ type: 'targetsFlung' });
+      }
+      return;
+    }
+
+    // Eases out, so the brake bites hard first and settles gently
+    const progress = Math.min(1, elapsed / WHEEL_CONFIG.BRAKE_DURATION);
+    const eased = 1 - (1 - progress) * (1 - progress);
+    this.speed = failure.fromSpeed + (this.startSpeed - failure.fromSpeed) * eased;
+    if (progress === 1) {
+      this.failure = null;
+      this.overspeedTime = 0;
+      events.push({ type: 'recovered' });
+    }
+  }
+
+  private getZone(rpm: number): WheelZone {
+    if (rpm >= WHEEL_CONFIG.REDLINE_RPM) return 'redline';
+    if (rpm >= WHEEL_CONFIG.DANGER_RPM) return 'danger';
+    return 'normal';
+  }
+}
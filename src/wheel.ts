@@ -0,0 +1,252 @@
+import * as THREE from 'three';
+import { COLORS, GAME_CONFIG, WIND_CONFIG } from './constants';
+import { WindStatus } from './wind';
+
+// How one wheel is built and how it moves; levels list several to build their layouts
+export interface WheelLayout {
+  radius: number;
+  position: THREE.Vector3Tuple; // Hub position
+  spokes: number; // Bars right across the wheel, so each one makes two spokes
+  armoredSpokes?: number[]; // Bars, by index, plated so arrows glance off instead of sticking
+  speed: number; // Share of the motor's speed; negative turns the other way
+  tilt?: number; // Radians the wheel leans back, foreshortening its orbit
+  ellipse?: number; // Height of the orbit relative to its width, 1 (round) by default
+  // Sweeps the hub out to `offset` and back once every `period` seconds
+  drift?: { offset: THREE.Vector3Tuple; period: number };
+}
+
+// The classic single wheel, read when needed so config overrides are picked up
+export function createDefaultWheelLayout(): WheelLayout {
+  return {
+    radius: GAME_CONFIG.WHEEL_RADIUS,
+    position: [0, GAME_CONFIG.WHEEL_RADIUS + 2, -15],
+    spokes: 4,
+    speed: 1
+  };
+}
+
+export type WheelPart = 'rim' | 'spoke';
+
+// Where an arrow ran into the rim or a spoke, in world space
+export interface WheelHit {
+  point: THREE.Vector3;
+  part: WheelPart;
+  armored: boolean;
+  normal: THREE.Vector3; // The way the wheel faces
+}
+
+const RIM_THICKNESS = 0.4; // Tube radius
+const SPOKE_WIDTH = 0.3;
+const FLAG_POLE_HEIGHT = 2;
+const UP = new THREE.Vector3(0, 1, 0);
+const FLAG_YAW = new THREE.Quaternion();
+
+// One spinning wheel. Targets are parented to `root`, which carries the position, tilt and wobble
+// but not the spin, so they can follow an elliptical orbit without being squashed themselves.
+// The rim and spokes spin inside a frame scaled to the ellipse.
+export class Wheel {
+  public readonly layout: WheelLayout;
+  public readonly root = new THREE.Group();
+  private frame = new THREE.Group();
+  private spinner = new THREE.Group();
+  private material: THREE.MeshLambertMaterial;
+  private armorMaterial: THREE.MeshLambertMaterial;
+  // Flies from a pole on top of the wheel to show the wind
+  private pole: THREE.Mesh;
+  private flagPivot = new THREE.Group();
+  private flag: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshLambertMaterial>;
+  private flagRestX: Float32Array;
+
+  // Simulation state; the meshes are interpolated between the previous and current values
+  public rotation = 0;
+  private previousRotation = 0;
+  private position = new THREE.Vector3();
+  private previousPosition = new THREE.Vector3();
+  private wobble = new THREE.Vector2();
+
+  constructor(layout: WheelLayout) {
+    this.layout = layout;
+    this.material = new THREE.MeshLambertMaterial({ color: COLORS.ARROW_SHAFT });
+    this.armorMaterial = new THREE.MeshLambertMaterial({ color: COLORS.ARMOR, emissive: COLORS.ARMOR, emissiveIntensity: 0.2 });
+
+    const rim = new THREE.Mesh(new THREE.TorusGeometry(layout.radius, RIM_THICKNESS, 8, 30), this.material);
+    rim.castShadow = true;
+    this.spinner.add(rim);
+
+    const spokeGeometry = new THREE.BoxGeometry(SPOKE_WIDTH, layout.radius * 2, SPOKE_WIDTH);
+    for (let i = 0; i < layout.spokes; i++) {
+      const spoke = new THREE.Mesh(spokeGeometry, this.isArmored(i) ? this.armorMaterial : this.material);
+      spoke.rotation.z = (i * Math.PI) / layout.spokes;
+      spoke.castShadow = true;
+      this.spinner.add(spoke);
+    }
+
+    this.frame.scale.y = layout.ellipse ?? 1;
+    this.frame.add(this.spinner);
+    this.root.add(this.frame);
+    
+    const top = layout.radius * (layout.ellipse ?? 1) + 0.4;
+    this.pole = new THREE.Mesh(new THREE.CylinderGeometry(0.05, 0.05, FLAG_POLE_HEIGHT, 6), this.material);
+    this.pole.position.y = top + FLAG_POLE_HEIGHT / 2;
+    this.root.add(this.pole);
+    
+    const flagGeometry = new THREE.PlaneGeometry(1.4, 0.8, 8, 1);
+    flagGeometry.translate(0.7, -0.4, 0);
+    this.flagRestX = Float32Array.from({ length: flagGeometry.attributes.position.count }, (_, i) => flagGeometry.attributes.position.getX(i));
+    this.flag = new THREE.Mesh(flagGeometry, new THREE.MeshLambertMaterial({ color: 0xcc2222, side: THREE.DoubleSide }));
+    this.flagPivot.position.y = top + FLAG_POLE_HEIGHT;
+    this.flagPivot.add(this.flag);
+    this.root.add(this.flagPivot);
+    this.reset(0);
+  }
+
+  // Where targets sit: just inside the rim
+  public get targetRadius(): number {
+    return this.layout.radius - 0.5;
+  }
+
+  public reset(time: number): void {
+    this.rotation = 0;
+    this.previousRotation = 0;
+    this.wobble.set(0, 0);
+    this.getPositionAt(time, this.position);
+    this.previousPosition.copy(this.position);
+    this.render(1);
+  }
+
+  // Saves bring back the spin; the drift follows from the game clock
+  public restore(rotation: number, time: number): void {
+    this.rotation = rotation;
+    this.previousRotation = rotation;
+    this.getPositionAt(time, this.position);
+    this.previousPosition.copy(this.position);
+    this.render(1);
+  }
+
+  public storePreviousState(): void {
+    this.previousRotation = this.rotation;
+    this.previousPosition.copy(this.position);
+  }
+
+  // `motorSpeed` is the shared drive in radians per second, `time` the game clock in milliseconds
+  public update(motorSpeed: number, deltaTime: number, time: number): void {
+    this.rotation += motorSpeed * this.layout.speed * deltaTime;
+    this.getPositionAt(time, this.position);
+    this.render(1);
+  }
+
+  public setWobble(x: number, y: number): void {
+    this.wobble.set(x, y);
+    this.root.rotation.x = -(this.layout.tilt ?? 0) + x;
+    this.root.rotation.y = y;
+  }
+
+  // Places a point on the orbit in root space; z is left alone for targets that bob in and out
+  public setOrbitPosition(position: THREE.Vector3, angle: number, radius: number): void {
+    position.x = Math.cos(angle) * radius;
+    position.y = Math.sin(angle) * radius * (this.layout.ellipse ?? 1);
+  }
+
+  // Which way the rim moves, for throwing things off it
+  public get direction(): number {
+    return Math.sign(this.layout.speed) || 1;
+  }
+
+  // Finds where an arrow moving from `from` to `to` this step runs into the rim or a spoke, if it does
+  public checkArrowHit(from: THREE.Vector3, to: THREE.Vector3): WheelHit | null {
+    this.spinner.updateWorldMatrix(true, false);
+    const start = this.spinner.worldToLocal(from.clone());
+    const end = this.spinner.worldToLocal(to.clone());
+    // Only a step that crosses the wheel's plane can hit it
+    if (Math.sign(start.z) === Math.sign(end.z)) return null;
+
+    const point = start.lerp(end, start.z / (start.z - end.z));
+    const distance = Math.hypot(point.x, point.y);
+    let part: WheelPart | null = null;
+    let armored = false;
+    if (Math.abs(distance - this.layout.radius) <= RIM_THICKNESS) {
+      part = 'rim';
+    } else if (distance < this.layout.radius) {
+      for (let i = 0; i < this.layout.spokes; i++) {
+        // Distance from the bar, which runs along local y turned by its angle
+        const angle = (i * Math.PI) / this.layout.spokes;
+        if (Math.abs(point.x * Math.cos(angle) + point.y * Math.sin(angle)) <= SPOKE_WIDTH / 2) {
+          part = 'spoke';
+          armored = this.isArmored(i);
+          break;
+        }
+      }
+    }
+    if (!part) return null;
+
+    const normal = new THREE.Vector3(0, 0, 1).transformDirection(this.spinner.matrixWorld);
+    return { point: this.spinner.localToWorld(point), part, armored, normal };
+  }
+
+  // The middle of the rim at the same angle round the hub as `point`, both in world space
+  public getRimPoint(point: THREE.Vector3): THREE.Vector3 {
+    this.spinner.updateWorldMatrix(true, false);
+    const local = this.spinner.worldToLocal(point.clone());
+    local.z = 0;
+    local.setLength(this.layout.radius);
+    return this.spinner.localToWorld(local);
+  }
+
+  // Fixes something to the turning rim and spokes without moving it in the world
+  public attach(object: THREE.Object3D): void {
+    this.spinner.attach(object);
+  }
+
+  // Puts back something attached before, from a transform already relative to the rim and spokes
+  public mount(object: THREE.Object3D): void {
+    this.spinner.add(object);
+  }
+
+  // Purely for show: the flag swings downwind, hangs limp in still air and flutters harder in a gale
+  public updateFlag(wind: WindStatus, time: number): void {
+    // A config without wind leaves nothing to scale by
+    const strength = wind.maxStrength === 0 ? 0 : Math.min(1, wind.strength / WIND_CONFIG.MAX_STRENGTH);
+    // Pointing along the wind in world space, undoing whatever the wheel leans by
+    this.flagPivot.quaternion.copy(this.root.quaternion).invert().multiply(FLAG_YAW.setFromAxisAngle(UP, -wind.direction));
+    this.flag.rotation.z = -(1 - strength) * 1.2;
+    
+    const positions = this.flag.geometry.attributes.position;
+    const seconds = time / 1000;
+    for (let i = 0; i < positions.count; i++) {
+      const x = this.flagRestX[i];
+      positions.setZ(i, Math.sin(x * 4 - seconds * (4 + strength * 10)) * x * 0.1 * (0.3 + strength));
+    }
+    positions.needsUpdate = true;
+  }
+
+  public render(alpha: number): void {
+    this.spinner.rotation.z = THREE.MathUtils.lerp(this.previousRotation, this.rotation, alpha);
+    this.root.position.lerpVectors(this.previousPosition, this.position, alpha);
+    this.setWobble(this.wobble.x, this.wobble.y);
+  }
+
+  public dispose(): void {
+    this.root.removeFromParent();
+    this.spinner.children.forEach(child => (child as THREE.Mesh).geometry.dispose());
+    this.pole.geometry.dispose();
+    this.flag.geometry.dispose();
+    this.flag.material.dispose();
+    this.material.dispose();
+    this.armorMaterial.dispose();
+  }
+
+  private isArmored(spoke: number): boolean {
+    return this.layout.armoredSpokes?.includes(spoke) ?? false;
+  }
+
+  private getPositionAt(time: number, out: THREE.Vector3): void {
+    out.fromArray(this.layout.position);
+    const drift = this.layout.drift;
+    if (drift) {
+      const sweep = Math.sin((time / 1000 / drift.period) * Math.PI * 2);
+      out.x += drift.offset[0] * sweep;
+      out.y += drift.offset[1] * sweep;
+      out.z += drift.offset[2] * sweep;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+import { WIND_CONFIG } from './constants';
+import { GameClock } from './game-clock';
+import { SeededRandom } from './seeded-random';
+
+// Per-frame values for the HUD indicator and the scenery that shows the wind
+export interface WindStatus {
+  direction: number; // Radians in the ground plane, 0 blowing towards +x and π/2 towards the camera (+z)
+  strength: number;
+  maxStrength: number;
+}
+
+export interface WindSnapshot {
+  direction: number;
+  strength: number;
+  maxStrength: number;
+  gustDirection: number;
+  gustStrength: number;
+  nextGustAt: number;
+}
+
+// Wind across the field. Every few seconds a new gust is rolled, and the wind eases towards
+// its direction and strength, so a careful archer can read it and aim off. It draws from
+// the gameplay random source because it moves the arrows.
+export class Wind {
+  private clock: GameClock;
+  private random: SeededRandom;
+  private direction = 0;
+  private strength = 0;
+  private maxStrength = 0;
+  private gustDirection = 0;
+  private gustStrength = 0;
+  private nextGustAt = 0;
+  private vector = new THREE.Vector3();
+
+  constructor(clock: GameClock, random: SeededRandom) {
+    this.clock = clock;
+    this.random = random;
+  }
+
+  // A maximum of 0 keeps the air still
+  public reset(maxStrength: number): void {
+    this.maxStrength = maxStrength;
+    this.direction = this.random.range(0, Math.PI * 2);
+    this.strength = this.random.range(0, maxStrength);
+    this.gustDirection = this.direction;
+    this.gustStrength = this.strength;
+    this.nextGustAt = this.clock.now() + this.random.range(WIND_CONFIG.GUST_INTERVAL_MIN, WIND_CONFIG.GUST_INTERVAL_MAX);
+    this.updateVector();
+  }
+
+  public update(deltaTime: number): void {
+    if (this.clock.now() >= this.nextGustAt) {
+      this.gustDirection = this.direction + this.random.range(-WIND_CONFIG.DIRECTION_SHIFT, WIND_CONFIG.DIRECTION_SHIFT);
+      this.gustStrength = this.random.range(0, this.maxStrength);
+      this.nextGustAt = this.clock.now() + this.random.range(WIND_CONFIG.GUST_INTERVAL_MIN, WIND_CONFIG.GUST_INTERVAL_MAX);
+    }
+
+    const ease = Math.min(1, WIND_CONFIG.EASE_RATE * deltaTime);
+    this.direction += (this.gustDirection - this.direction) * ease;
+    this.strength += (this.gustStrength - this.strength) * ease;
+    this.updateVector();
+  }
+
+  // Wind velocity in world units per second; shared, so callers must not change it
+  public getVector(): THREE.Vector3 {
+    return this.vector;
+  }
+
+  public getStatus(): WindStatus {
+    return {
+      direction: THREE.MathUtils.euclideanModulo(this.direction, Math.PI * 2),
+      strength: this.strength,
+      maxStrength: this.maxStrength
+    };
+  }
+
+  public toSnapshot(): WindSnapshot {
+    return {
+      direction: this.direction,
+      strength: this.strength,
+      maxStrength: this.maxStrength,
+      gustDirection: this.gustDirection,
+      gustStrength: this.gustStrength,
+      nextGustAt: this.nextGustAt
+    };
+  }
+
+  public restoreSnapshot(snapshot: WindSnapshot): void {
+    this.direction = snapshot.direction;
+    this.strength = snapshot.strength;
+    this.maxStrength = snapshot.maxStrength;
+    this.gustDirection = snapshot.gustDirection;
+    this.gustStrength = snapshot.gustStrength;
+    this.nextGustAt = snapshot.nextGustAt;
+    this.updateVector();
+  }
+
+  private updateVector(): void {
+    this.vector.set(Math.cos(this.direction) * this.strength, 0, Math.sin(this.direction) * this.strength);
+  }
+}